@@ -0,0 +1,22 @@
+import path from 'path';
+
+/**
+ * Attachment upload settings. Read lazily for the same reason as
+ * `authConfig`.
+ */
+export const attachmentConfig = {
+  /** Storage driver name; only `local` ships today. */
+  get storageDriver(): string {
+    return process.env.ATTACHMENT_STORAGE || 'local';
+  },
+  get localDirectory(): string {
+    return process.env.ATTACHMENT_LOCAL_DIR || path.join(process.cwd(), 'uploads');
+  },
+  get maxFileSizeBytes(): number {
+    return (Number(process.env.ATTACHMENT_MAX_SIZE_MB) || 10) * 1024 * 1024;
+  },
+  /** Uploads never attached to a message are removed after this long. */
+  get orphanTtlHours(): number {
+    return Number(process.env.ATTACHMENT_ORPHAN_TTL_HOURS) || 24;
+  },
+};
@@ -0,0 +1,26 @@
+/**
+ * Authentication settings. Values are read lazily because `dotenv.config()`
+ * runs after module imports in `server.ts`.
+ */
+export const authConfig = {
+  get requireEmailVerification(): boolean {
+    return process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+  },
+  get emailVerificationExpiryHours(): number {
+    return Number(process.env.EMAIL_VERIFICATION_EXPIRY_HOURS) || 24;
+  },
+  get passwordResetExpiryMinutes(): number {
+    return Number(process.env.PASSWORD_RESET_EXPIRY_MINUTES) || 60;
+  },
+  get mfaIssuer(): string {
+    return process.env.MFA_ISSUER || 'ClashChat';
+  },
+  get accountDeletionGraceDays(): number {
+    // 0 is a valid setting (delete on the next sweep), so no `||` fallback here.
+    const days = parseFloat(process.env.ACCOUNT_DELETION_GRACE_DAYS || '');
+    return Number.isFinite(days) && days >= 0 ? days : 14;
+  },
+  get clientUrl(): string {
+    return (process.env.CLIENT_URL || 'http://localhost:3000').replace(/\/$/, '');
+  },
+};
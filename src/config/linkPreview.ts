@@ -0,0 +1,20 @@
+/**
+ * Link preview settings. Read lazily for the same reason as `authConfig`.
+ */
+export const linkPreviewConfig = {
+  /** Set LINK_PREVIEWS_ENABLED=false to stop fetching previews. */
+  get enabled(): boolean {
+    return process.env.LINK_PREVIEWS_ENABLED !== 'false';
+  },
+  /** Deadline for a whole preview, including redirects and oEmbed. */
+  get timeoutMs(): number {
+    return Number(process.env.LINK_PREVIEW_TIMEOUT_MS) || 5000;
+  },
+  /** Most bytes read from any one response. */
+  get maxBytes(): number {
+    return (Number(process.env.LINK_PREVIEW_MAX_KB) || 512) * 1024;
+  },
+  get cacheTtlMinutes(): number {
+    return Number(process.env.LINK_PREVIEW_CACHE_MINUTES) || 60;
+  },
+};
@@ -0,0 +1,25 @@
+/**
+ * Messaging settings. Read lazily for the same reason as `authConfig`.
+ */
+export const messagingConfig = {
+  /** How long after sending a message its sender may still edit it. */
+  get editWindowMinutes(): number {
+    return Number(process.env.MESSAGE_EDIT_WINDOW_MINUTES) || 15;
+  },
+  /** How long after sending a message its sender may delete it for everyone. */
+  get deleteWindowMinutes(): number {
+    return Number(process.env.MESSAGE_DELETE_WINDOW_MINUTES) || 60;
+  },
+  /** How many messages can be pinned in one conversation. */
+  get maxPinnedMessages(): number {
+    return Number(process.env.MESSAGE_MAX_PINS) || 5;
+  },
+  /** How far ahead a message can be scheduled. */
+  get scheduleMaxDays(): number {
+    return Number(process.env.MESSAGE_SCHEDULE_MAX_DAYS) || 365;
+  },
+  /** How many members a group conversation can have, including its owner. */
+  get maxGroupMembers(): number {
+    return Number(process.env.GROUP_MAX_MEMBERS) || 100;
+  },
+};
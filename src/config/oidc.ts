@@ -0,0 +1,42 @@
+export interface OidcProviderConfig {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+}
+
+/**
+ * Providers are listed in `OIDC_PROVIDERS` (comma separated IDs) and each one
+ * is configured through `OIDC_<ID>_*` variables, e.g. `OIDC_GOOGLE_ISSUER`.
+ * Pointing an issuer at a local mock OIDC server works the same way.
+ */
+export const getOidcProviders = (): OidcProviderConfig[] => {
+  const ids = (process.env.OIDC_PROVIDERS || '')
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  return ids
+    .map((id) => {
+      const prefix = `OIDC_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+      const env = (key: string): string | undefined => process.env[prefix + key];
+
+      return {
+        id,
+        name: env('NAME') || id,
+        issuer: (env('ISSUER') || '').replace(/\/$/, ''),
+        clientId: env('CLIENT_ID') || '',
+        clientSecret: env('CLIENT_SECRET'),
+        redirectUri: env('REDIRECT_URI') || '',
+        scopes: env('SCOPES') || 'openid email profile',
+      };
+    })
+    .filter((provider) => provider.issuer && provider.clientId && provider.redirectUri);
+};
+
+export const getOidcProvider = (id: string): OidcProviderConfig | undefined => {
+  return getOidcProviders().find((provider) => provider.id === id.toLowerCase());
+};
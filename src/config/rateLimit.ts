@@ -0,0 +1,56 @@
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Rate limit and lockout settings. Read lazily for the same reason as
+ * `authConfig`.
+ */
+export const rateLimitConfig = {
+  /** `memory` for a single instance, `mongo` to share counters between instances. */
+  get store(): 'memory' | 'mongo' {
+    return process.env.RATE_LIMIT_STORE === 'mongo' ? 'mongo' : 'memory';
+  },
+  get loginPerIp(): { max: number; windowMs: number } {
+    return {
+      max: readNumber('RATE_LIMIT_LOGIN_IP_MAX', 20),
+      windowMs: readNumber('RATE_LIMIT_LOGIN_WINDOW_MINUTES', 15) * 60 * 1000,
+    };
+  },
+  get loginPerAccount(): { max: number; windowMs: number } {
+    return {
+      max: readNumber('RATE_LIMIT_LOGIN_ACCOUNT_MAX', 10),
+      windowMs: readNumber('RATE_LIMIT_LOGIN_WINDOW_MINUTES', 15) * 60 * 1000,
+    };
+  },
+  get signupPerIp(): { max: number; windowMs: number } {
+    return {
+      max: readNumber('RATE_LIMIT_SIGNUP_IP_MAX', 5),
+      windowMs: readNumber('RATE_LIMIT_SIGNUP_WINDOW_MINUTES', 60) * 60 * 1000,
+    };
+  },
+  /** Password reset, verification and MFA endpoints. */
+  get sensitivePerIp(): { max: number; windowMs: number } {
+    return {
+      max: readNumber('RATE_LIMIT_SENSITIVE_IP_MAX', 10),
+      windowMs: readNumber('RATE_LIMIT_SENSITIVE_WINDOW_MINUTES', 15) * 60 * 1000,
+    };
+  },
+  /** The same endpoints, per email address. */
+  get sensitivePerAccount(): { max: number; windowMs: number } {
+    return {
+      max: readNumber('RATE_LIMIT_SENSITIVE_ACCOUNT_MAX', 5),
+      windowMs: readNumber('RATE_LIMIT_SENSITIVE_WINDOW_MINUTES', 15) * 60 * 1000,
+    };
+  },
+  get lockoutThreshold(): number {
+    return readNumber('LOGIN_LOCKOUT_THRESHOLD', 5);
+  },
+  get lockoutBaseMinutes(): number {
+    return readNumber('LOGIN_LOCKOUT_BASE_MINUTES', 1);
+  },
+  get lockoutMaxMinutes(): number {
+    return readNumber('LOGIN_LOCKOUT_MAX_MINUTES', 60);
+  },
+};
@@ -0,0 +1,100 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Attachment } from '../models/Attachment';
+import { Message } from '../models/Message';
+import { sendSuccess, sendError } from '../utils/response';
+import { sniffFile } from '../utils/fileType';
+import { getStorageDriver, generateStorageKey } from '../utils/attachmentStorage';
+import { toAttachmentJson, sanitizeFileName, isImageMimeType } from '../utils/attachments';
+import { canAccessMessage } from '../utils/messageHelper';
+
+export const uploadAttachment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.file) {
+      sendError(res, 'File required', 'Upload a file in the "file" field', 400);
+      return;
+    }
+
+    const name = sanitizeFileName(req.file.originalname);
+    const sniffed = sniffFile(req.file.buffer, name);
+    if (!sniffed) {
+      sendError(res, 'Unsupported file type', 'This type of file cannot be sent', 415);
+      return;
+    }
+
+    const driver = getStorageDriver();
+    const storageKey = generateStorageKey();
+    await driver.put(storageKey, req.file.buffer, sniffed.mimeType);
+
+    const attachment = await Attachment.create({
+      uploader: req.userId,
+      storageDriver: driver.name,
+      storageKey,
+      name,
+      size: req.file.size,
+      ...sniffed,
+    });
+
+    sendSuccess(res, 'File uploaded successfully', { attachment: toAttachmentJson(attachment) }, 201);
+  } catch (error) {
+    console.error('Upload attachment error:', error);
+    sendError(res, 'Upload failed', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
+export const downloadAttachment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { attachmentId } = req.params;
+    const userId = req.userId as string;
+
+    if (!mongoose.Types.ObjectId.isValid(attachmentId)) {
+      sendError(res, 'Invalid attachment ID', 'Please provide a valid attachment ID', 400);
+      return;
+    }
+
+    const attachment = await Attachment.findById(attachmentId);
+    if (!attachment) {
+      sendError(res, 'Attachment not found', 'Attachment does not exist', 404);
+      return;
+    }
+
+    // Before it is sent only the uploader may fetch it; afterwards every
+    // participant of the conversation may.
+    let allowed = attachment.uploader.toString() === userId;
+    if (attachment.message) {
+      const message = await Message.findById(attachment.message).select(
+        'sender receiver conversation deletedFor'
+      );
+      allowed = Boolean(
+        message &&
+          (await canAccessMessage(message, userId)) &&
+          !message.deletedFor.some((id) => id.toString() === userId)
+      );
+    }
+
+    if (!allowed) {
+      sendError(res, 'Attachment not found', 'Attachment does not exist', 404);
+      return;
+    }
+
+    const stream = await getStorageDriver().get(attachment.storageKey);
+
+    const disposition = isImageMimeType(attachment.mimeType) ? 'inline' : 'attachment';
+    res.setHeader('Content-Type', attachment.mimeType);
+    res.setHeader('Content-Length', attachment.size);
+    res.setHeader(
+      'Content-Disposition',
+      `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.name)}`
+    );
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+
+    stream.on('error', (streamError) => {
+      console.error('Attachment stream error:', streamError);
+      res.destroy(streamError);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error('Download attachment error:', error);
+    sendError(res, 'Download failed', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
@@ -1,8 +1,53 @@
 import { Request, Response } from 'express';
-import { User } from '../models/User';
-import { generateAccessToken, generateRefreshToken, verifyRefreshToken } from '../utils/jwt';
+import { User, IUser } from '../models/User';
+import { Session } from '../models/Session';
+import { SecurityEvent } from '../models/SecurityEvent';
+import { Friendship } from '../models/Friendship';
+import { Message } from '../models/Message';
+import {
+  verifyRefreshToken,
+  verifyMfaPendingToken,
+  TokenPayload,
+} from '../utils/jwt';
+import { startSession, rotateSession, renewSession, revokeTokenFamily } from '../utils/sessions';
+import { toAuthUser, completeLogin, issueLoginTokens } from '../utils/authResponse';
+import {
+  revokeAccessToken,
+  revokeSessionAccessTokens,
+  revokeAllAccessTokens,
+} from '../utils/accessTokens';
 import { sendSuccess, sendError } from '../utils/response';
+import { generateRandomToken, hashToken } from '../utils/tokens';
+import {
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+} from '../utils/totp';
+import {
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+  sendAccountDeletionEmail,
+  sendEmailChangeConfirmationEmail,
+  sendEmailChangeRequestedEmail,
+  sendPasswordChangedEmail,
+} from '../utils/authEmails';
+import { createZip } from '../utils/zip';
+import { getLockoutRemainingMs, recordFailedLogin, clearFailedLogins } from '../utils/loginLockout';
+import { anonymizeUser } from '../jobs/accountDeletion';
+import { getMemberHistoryFilters, visibleTo } from '../utils/conversationHelper';
+import { authConfig } from '../config/auth';
 import { validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+
+const issueEmailVerificationToken = (user: IUser): string => {
+  const token = generateRandomToken();
+  user.emailVerificationToken = hashToken(token);
+  user.emailVerificationExpires = new Date(
+    Date.now() + authConfig.emailVerificationExpiryHours * 60 * 60 * 1000
+  );
+  return token;
+};
 
 export const signup = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -26,23 +71,22 @@ export const signup = async (req: Request, res: Response): Promise<void> => {
       password,
     });
 
-    const accessToken = generateAccessToken({ userId: user._id.toString(), email: user.email });
-    const refreshToken = generateRefreshToken({ userId: user._id.toString(), email: user.email });
-
-    user.refreshToken = refreshToken;
+    const verificationToken = issueEmailVerificationToken(user);
     await user.save();
 
+    const { accessToken, refreshToken } = await startSession(user, req);
+
+    try {
+      await sendVerificationEmail(user, verificationToken);
+    } catch (mailError) {
+      console.error('Verification email error:', mailError);
+    }
+
     sendSuccess(
       res,
       'User registered successfully',
       {
-        user: {
-          id: user._id,
-          username: user.username,
-          email: user.email,
-          avatar: user.avatar,
-          status: user.status,
-        },
+        user: toAuthUser(user),
         accessToken,
         refreshToken,
       },
@@ -54,6 +98,36 @@ export const signup = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+const sendLocked = (res: Response, lockedForMs: number): void => {
+  const retryAfterSeconds = Math.ceil(lockedForMs / 1000);
+  res.setHeader('Retry-After', retryAfterSeconds);
+  sendError(
+    res,
+    'Account temporarily locked',
+    `Too many failed login attempts. Try again in ${retryAfterSeconds} seconds`,
+    423
+  );
+};
+
+/**
+ * Rejects a wrong password or code on an authenticated endpoint. It counts
+ * towards the login lockout, so a stolen access token does not allow
+ * unlimited guesses.
+ */
+const rejectFailedCheck = async (
+  res: Response,
+  user: IUser,
+  title: string,
+  detail: string
+): Promise<void> => {
+  const lockMs = await recordFailedLogin(user);
+  if (lockMs > 0) {
+    sendLocked(res, lockMs);
+    return;
+  }
+  sendError(res, title, detail, 401);
+};
+
 export const login = async (req: Request, res: Response): Promise<void> => {
   try {
     const errors = validationResult(req);
@@ -64,41 +138,252 @@ export const login = async (req: Request, res: Response): Promise<void> => {
 
     const { email, password } = req.body;
 
-    const user = await User.findOne({ email }).select('+password');
+    const user = await User.findOne({ email }).select(
+      '+password +failedLoginAttempts +lockUntil'
+    );
     if (!user) {
       sendError(res, 'Login failed', 'Invalid credentials', 401);
       return;
     }
 
+    const lockedForMs = getLockoutRemainingMs(user);
+    if (lockedForMs > 0) {
+      sendLocked(res, lockedForMs);
+      return;
+    }
+
     const isPasswordValid = await user.comparePassword(password);
     if (!isPasswordValid) {
+      const lockMs = await recordFailedLogin(user);
+      if (lockMs > 0) {
+        sendLocked(res, lockMs);
+        return;
+      }
       sendError(res, 'Login failed', 'Invalid credentials', 401);
       return;
     }
 
-    const accessToken = generateAccessToken({ userId: user._id.toString(), email: user.email });
-    const refreshToken = generateRefreshToken({ userId: user._id.toString(), email: user.email });
+    // With MFA the login only completes once the code is checked, so
+    // failed codes keep counting towards the lockout until then.
+    if (!user.mfaEnabled) {
+      await clearFailedLogins(user);
+    }
+
+    const { message, data } = await completeLogin(user, req);
+
+    sendSuccess(res, message, data);
+  } catch (error) {
+    console.error('Login error:', error);
+    sendError(res, 'Login failed', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
+/**
+ * Checks a TOTP code or, failing that, a one-time recovery code. Expects the
+ * user to be loaded with `+mfaSecret +mfaRecoveryCodes +mfaLastUsedStep`.
+ * Marks the code as used on success; the caller must save the user.
+ */
+const consumeMfaCode = (user: IUser, code: unknown, recoveryCode: unknown): boolean => {
+  if (typeof code === 'string' && code && user.mfaSecret) {
+    const step = verifyTotp(user.mfaSecret, code, user.mfaLastUsedStep);
+    if (step !== null) {
+      user.mfaLastUsedStep = step;
+      return true;
+    }
+  }
+
+  if (typeof recoveryCode === 'string' && recoveryCode && user.mfaRecoveryCodes?.length) {
+    const hashed = hashToken(recoveryCode.trim().toLowerCase());
+    if (user.mfaRecoveryCodes.includes(hashed)) {
+      user.mfaRecoveryCodes = user.mfaRecoveryCodes.filter((c) => c !== hashed);
+      return true;
+    }
+  }
+
+  return false;
+};
+
+export const verifyMfaLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      sendError(res, 'Validation failed', errors.array()[0].msg, 400);
+      return;
+    }
+
+    const { mfaToken, code, recoveryCode } = req.body;
+
+    let decoded: TokenPayload;
+    try {
+      decoded = verifyMfaPendingToken(mfaToken);
+    } catch {
+      sendError(res, 'Invalid MFA token', 'Please log in again', 401);
+      return;
+    }
+
+    const user = await User.findById(decoded.userId).select(
+      '+mfaSecret +mfaRecoveryCodes +mfaLastUsedStep +failedLoginAttempts +lockUntil'
+    );
+    if (!user || !user.mfaEnabled) {
+      sendError(res, 'Invalid MFA token', 'Please log in again', 401);
+      return;
+    }
+
+    // Failed codes share the password lockout, which is per account, so
+    // spreading guesses over many IPs or pending tokens does not help.
+    const lockedForMs = getLockoutRemainingMs(user);
+    if (lockedForMs > 0) {
+      sendLocked(res, lockedForMs);
+      return;
+    }
+
+    if (!consumeMfaCode(user, code, recoveryCode)) {
+      const lockMs = await recordFailedLogin(user);
+      if (lockMs > 0) {
+        sendLocked(res, lockMs);
+        return;
+      }
+      sendError(res, 'Verification failed', 'Invalid authentication code', 401);
+      return;
+    }
 
-    user.refreshToken = refreshToken;
     await user.save();
+    await clearFailedLogins(user);
 
     sendSuccess(res, 'Login successful', {
-      user: {
-        id: user._id,
-        username: user.username,
-        email: user.email,
-        avatar: user.avatar,
-        status: user.status,
-      },
-      accessToken,
-      refreshToken,
+      ...(await issueLoginTokens(user, req)),
+      recoveryCodesRemaining: user.mfaRecoveryCodes?.length ?? 0,
     });
   } catch (error) {
-    console.error('Login error:', error);
+    console.error('MFA verify error:', error);
     sendError(res, 'Login failed', error instanceof Error ? error.message : 'Unknown error', 500);
   }
 };
 
+export const setupMfa = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.userId);
+    if (!user) {
+      sendError(res, 'User not found', 'User profile not found', 404);
+      return;
+    }
+
+    if (user.mfaEnabled) {
+      sendError(res, 'MFA already enabled', 'Disable two-factor authentication before enrolling again', 409);
+      return;
+    }
+
+    const secret = generateTotpSecret();
+    user.mfaPendingSecret = secret;
+    await user.save();
+
+    sendSuccess(res, 'Scan the QR code with your authenticator app, then confirm with a code', {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, authConfig.mfaIssuer),
+    });
+  } catch (error) {
+    console.error('MFA setup error:', error);
+    sendError(res, 'Failed to start MFA setup', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
+export const confirmMfa = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      sendError(res, 'Validation failed', errors.array()[0].msg, 400);
+      return;
+    }
+
+    const user = await User.findById(req.userId).select('+mfaPendingSecret');
+    if (!user) {
+      sendError(res, 'User not found', 'User profile not found', 404);
+      return;
+    }
+
+    if (user.mfaEnabled) {
+      sendError(res, 'MFA already enabled', 'Two-factor authentication is already active', 409);
+      return;
+    }
+
+    if (!user.mfaPendingSecret) {
+      sendError(res, 'MFA setup not started', 'Call POST /api/auth/mfa/setup first', 400);
+      return;
+    }
+
+    const step = verifyTotp(user.mfaPendingSecret, req.body.code);
+    if (step === null) {
+      sendError(res, 'Verification failed', 'Invalid authentication code', 400);
+      return;
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    user.mfaSecret = user.mfaPendingSecret;
+    user.mfaPendingSecret = undefined;
+    user.mfaEnabled = true;
+    user.mfaLastUsedStep = step;
+    user.mfaRecoveryCodes = recoveryCodes.map((recoveryCode) => hashToken(recoveryCode));
+    await user.save();
+
+    sendSuccess(res, 'Two-factor authentication enabled. Store these recovery codes somewhere safe', {
+      recoveryCodes,
+    });
+  } catch (error) {
+    console.error('MFA confirm error:', error);
+    sendError(res, 'Failed to enable MFA', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
+export const disableMfa = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      sendError(res, 'Validation failed', errors.array()[0].msg, 400);
+      return;
+    }
+
+    const { password, code, recoveryCode } = req.body;
+
+    const user = await User.findById(req.userId).select(
+      '+password +mfaSecret +mfaRecoveryCodes +mfaLastUsedStep +failedLoginAttempts +lockUntil'
+    );
+    if (!user) {
+      sendError(res, 'User not found', 'User profile not found', 404);
+      return;
+    }
+
+    if (!user.mfaEnabled) {
+      sendError(res, 'MFA not enabled', 'Two-factor authentication is not active', 400);
+      return;
+    }
+
+    const lockedForMs = getLockoutRemainingMs(user);
+    if (lockedForMs > 0) {
+      sendLocked(res, lockedForMs);
+      return;
+    }
+
+    const isPasswordValid = await user.comparePassword(password);
+    if (!isPasswordValid || !consumeMfaCode(user, code, recoveryCode)) {
+      await rejectFailedCheck(res, user, 'Verification failed', 'Invalid password or authentication code');
+      return;
+    }
+
+    user.mfaEnabled = false;
+    user.mfaSecret = undefined;
+    user.mfaRecoveryCodes = undefined;
+    user.mfaLastUsedStep = undefined;
+    await user.save();
+    await clearFailedLogins(user);
+
+    sendSuccess(res, 'Two-factor authentication disabled');
+  } catch (error) {
+    console.error('MFA disable error:', error);
+    sendError(res, 'Failed to disable MFA', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
 export const refreshToken = async (req: Request, res: Response): Promise<void> => {
   try {
     const { refreshToken } = req.body;
@@ -110,22 +395,43 @@ export const refreshToken = async (req: Request, res: Response): Promise<void> =
 
     const decoded = verifyRefreshToken(refreshToken);
 
-    const user = await User.findById(decoded.userId).select('+refreshToken');
-    if (!user || user.refreshToken !== refreshToken) {
-      sendError(res, 'Invalid refresh token', 'Token mismatch or user not found', 401);
+    if (!decoded.sessionId || !mongoose.Types.ObjectId.isValid(decoded.sessionId)) {
+      sendError(res, 'Invalid refresh token', 'Session not found, please log in again', 401);
       return;
     }
 
-    const newAccessToken = generateAccessToken({ userId: user._id.toString(), email: user.email });
-    const newRefreshToken = generateRefreshToken({ userId: user._id.toString(), email: user.email });
+    const session = await Session.findOne({
+      _id: decoded.sessionId,
+      user: decoded.userId,
+    }).select('+refreshTokenHash +refreshTokenJti');
+    if (!session) {
+      sendError(res, 'Invalid refresh token', 'Session not found or revoked', 401);
+      return;
+    }
 
-    user.refreshToken = newRefreshToken;
-    await user.save();
+    if (
+      session.refreshTokenJti !== decoded.jti ||
+      session.refreshTokenHash !== hashToken(refreshToken)
+    ) {
+      await revokeTokenFamily(session, req, decoded.jti);
+      sendError(res, 'Refresh token reuse detected', 'This session has been revoked, please log in again', 401);
+      return;
+    }
 
-    sendSuccess(res, 'Token refreshed successfully', {
-      accessToken: newAccessToken,
-      refreshToken: newRefreshToken,
-    });
+    const user = await User.findById(decoded.userId);
+    if (!user) {
+      sendError(res, 'Invalid refresh token', 'Token mismatch or user not found', 401);
+      return;
+    }
+
+    const tokens = await rotateSession(session, user, req, decoded.jti);
+    if (!tokens) {
+      await revokeTokenFamily(session, req, decoded.jti);
+      sendError(res, 'Refresh token reuse detected', 'This session has been revoked, please log in again', 401);
+      return;
+    }
+
+    sendSuccess(res, 'Token refreshed successfully', tokens);
   } catch (error) {
     console.error('Refresh token error:', error);
     if (error instanceof Error && error.name === 'JsonWebTokenError') {
@@ -136,14 +442,162 @@ export const refreshToken = async (req: Request, res: Response): Promise<void> =
   }
 };
 
-export const logout = async (req: Request, res: Response): Promise<void> => {
+export const verifyEmail = async (req: Request, res: Response): Promise<void> => {
   try {
-    const userId = req.userId;
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      sendError(res, 'Validation failed', errors.array()[0].msg, 400);
+      return;
+    }
 
-    const user = await User.findById(userId);
+    const { token } = req.body;
+
+    const user = await User.findOne({
+      emailVerificationToken: hashToken(token),
+      emailVerificationExpires: { $gt: new Date() },
+    });
+
+    if (!user) {
+      sendError(res, 'Verification failed', 'Invalid or expired verification token', 400);
+      return;
+    }
+
+    user.emailVerified = true;
+    user.emailVerificationToken = undefined;
+    user.emailVerificationExpires = undefined;
+    await user.save();
+
+    sendSuccess(res, 'Email verified successfully', {
+      user: {
+        id: user._id,
+        email: user.email,
+        emailVerified: user.emailVerified,
+      },
+    });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    sendError(res, 'Email verification failed', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
+export const resendVerificationEmail = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      sendError(res, 'Validation failed', errors.array()[0].msg, 400);
+      return;
+    }
+
+    const { email } = req.body;
+
+    // Same response whether or not the address is registered, so this endpoint
+    // cannot be used to discover accounts.
+    const user = await User.findOne({ email });
+    if (user && !user.emailVerified) {
+      const verificationToken = issueEmailVerificationToken(user);
+      await user.save();
+
+      try {
+        await sendVerificationEmail(user, verificationToken);
+      } catch (mailError) {
+        console.error('Verification email error:', mailError);
+      }
+    }
+
+    sendSuccess(res, 'If the account exists and is not yet verified, a verification email has been sent');
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    sendError(res, 'Failed to resend verification email', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      sendError(res, 'Validation failed', errors.array()[0].msg, 400);
+      return;
+    }
+
+    const { email } = req.body;
+
+    // Same response whether or not the address is registered, so this endpoint
+    // cannot be used to discover accounts.
+    const user = await User.findOne({ email });
     if (user) {
-      user.refreshToken = undefined;
+      const resetToken = generateRandomToken();
+      user.passwordResetToken = hashToken(resetToken);
+      user.passwordResetExpires = new Date(
+        Date.now() + authConfig.passwordResetExpiryMinutes * 60 * 1000
+      );
       await user.save();
+
+      try {
+        await sendPasswordResetEmail(user, resetToken);
+      } catch (mailError) {
+        console.error('Password reset email error:', mailError);
+      }
+    }
+
+    sendSuccess(res, 'If an account exists for this email, a password reset link has been sent');
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    sendError(res, 'Failed to start password reset', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      sendError(res, 'Validation failed', errors.array()[0].msg, 400);
+      return;
+    }
+
+    const { token, password } = req.body;
+
+    const user = await User.findOne({
+      passwordResetToken: hashToken(token),
+      passwordResetExpires: { $gt: new Date() },
+    });
+
+    if (!user) {
+      sendError(res, 'Password reset failed', 'Invalid or expired reset token', 400);
+      return;
+    }
+
+    user.password = password;
+    user.passwordResetToken = undefined;
+    user.passwordResetExpires = undefined;
+    user.failedLoginAttempts = 0;
+    user.lockUntil = undefined;
+    // The reset link was delivered to this address, so it is proven to be owned.
+    user.emailVerified = true;
+
+    // Log out every existing session and invalidate outstanding access tokens.
+    await revokeAllAccessTokens(user, 'password_reset');
+    await Session.deleteMany({ user: user._id });
+
+    sendSuccess(res, 'Password reset successful, please log in with your new password');
+  } catch (error) {
+    console.error('Reset password error:', error);
+    sendError(res, 'Password reset failed', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId as string;
+
+    if (req.tokenJti) {
+      await revokeAccessToken(userId, req.tokenJti, req.tokenExpiresAt || new Date());
+    }
+
+    if (req.sessionId) {
+      const session = await Session.findOneAndDelete({ _id: req.sessionId, user: userId });
+      if (session) {
+        await revokeSessionAccessTokens(userId, req.sessionId, session.expiresAt);
+      }
     }
 
     sendSuccess(res, 'Logout successful');
@@ -153,6 +607,83 @@ export const logout = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+export const logoutAll = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.userId);
+    if (!user) {
+      sendError(res, 'User not found', 'User profile not found', 404);
+      return;
+    }
+
+    await revokeAllAccessTokens(user, 'logout_all');
+    await Session.deleteMany({ user: user._id });
+
+    sendSuccess(res, 'Logged out from all devices');
+  } catch (error) {
+    console.error('Logout all error:', error);
+    sendError(res, 'Logout failed', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
+export const getSessions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessions = await Session.find({ user: req.userId }).sort({ lastUsedAt: -1 });
+
+    sendSuccess(res, 'Sessions retrieved successfully', {
+      sessions: sessions.map((session) => ({
+        id: session._id,
+        deviceName: session.deviceName,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: session._id.toString() === req.sessionId,
+      })),
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    sendError(res, 'Failed to retrieve sessions', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
+export const revokeSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+      sendError(res, 'Invalid session ID', 'Please provide a valid session ID', 400);
+      return;
+    }
+
+    const session = await Session.findOneAndDelete({ _id: sessionId, user: req.userId });
+    if (!session) {
+      sendError(res, 'Session not found', 'Session does not exist or was already revoked', 404);
+      return;
+    }
+
+    await revokeSessionAccessTokens(req.userId as string, sessionId, session.expiresAt);
+
+    sendSuccess(res, 'Session revoked successfully');
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    sendError(res, 'Failed to revoke session', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
+export const getSecurityEvents = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const events = await SecurityEvent.find({ user: req.userId })
+      .sort({ createdAt: -1 })
+      .limit(50)
+      .select('type deviceName ip userAgent createdAt');
+
+    sendSuccess(res, 'Security events retrieved successfully', { events });
+  } catch (error) {
+    console.error('Get security events error:', error);
+    sendError(res, 'Failed to retrieve security events', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
 export const getProfile = async (req: Request, res: Response): Promise<void> => {
   try {
     const userId = req.userId;
@@ -171,6 +702,14 @@ export const getProfile = async (req: Request, res: Response): Promise<void> =>
         avatar: user.avatar,
         status: user.status,
         lastSeen: user.lastSeen,
+        emailVerified: user.emailVerified,
+        pendingEmail: user.pendingEmail,
+        mfaEnabled: user.mfaEnabled,
+        identities: user.identities.map(({ provider, email, linkedAt }) => ({
+          provider,
+          email,
+          linkedAt,
+        })),
         createdAt: user.createdAt,
       },
     });
@@ -232,3 +771,350 @@ export const updateProfile = async (req: Request, res: Response): Promise<void>
     sendError(res, 'Failed to update profile', error instanceof Error ? error.message : 'Unknown error', 500);
   }
 };
+
+export const changePassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      sendError(res, 'Validation failed', errors.array()[0].msg, 400);
+      return;
+    }
+
+    const { currentPassword, newPassword } = req.body;
+
+    const user = await User.findById(req.userId).select('+password');
+    if (!user) {
+      sendError(res, 'User not found', 'User profile not found', 404);
+      return;
+    }
+
+    if (!user.password) {
+      sendError(res, 'Password change failed', 'This account has no password yet, use forgot password to set one', 400);
+      return;
+    }
+
+    const isPasswordValid = await user.comparePassword(currentPassword);
+    if (!isPasswordValid) {
+      sendError(res, 'Password change failed', 'Current password is incorrect', 401);
+      return;
+    }
+
+    if (await user.comparePassword(newPassword)) {
+      sendError(res, 'Password change failed', 'New password must be different from the current password', 400);
+      return;
+    }
+
+    user.password = newPassword;
+    user.failedLoginAttempts = 0;
+    user.lockUntil = undefined;
+
+    // Invalidates every access token, including the one used for this
+    // request, so the current device gets a fresh pair below.
+    await revokeAllAccessTokens(user, 'password_change');
+    await Session.deleteMany({
+      user: user._id,
+      ...(req.sessionId && { _id: { $ne: req.sessionId } }),
+    });
+
+    const tokens = await renewSession(req.sessionId, user, req);
+
+    try {
+      await sendPasswordChangedEmail(user);
+    } catch (mailError) {
+      console.error('Password changed email error:', mailError);
+    }
+
+    sendSuccess(res, 'Password changed successfully, other devices have been logged out', tokens);
+  } catch (error) {
+    console.error('Change password error:', error);
+    sendError(res, 'Password change failed', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
+export const requestEmailChange = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      sendError(res, 'Validation failed', errors.array()[0].msg, 400);
+      return;
+    }
+
+    const { password } = req.body;
+    const newEmail = (req.body.newEmail as string).toLowerCase();
+
+    const user = await User.findById(req.userId).select('+password');
+    if (!user) {
+      sendError(res, 'User not found', 'User profile not found', 404);
+      return;
+    }
+
+    if (!user.password) {
+      sendError(res, 'Email change failed', 'Set a password before changing your email', 400);
+      return;
+    }
+
+    const isPasswordValid = await user.comparePassword(password);
+    if (!isPasswordValid) {
+      sendError(res, 'Email change failed', 'Invalid password', 401);
+      return;
+    }
+
+    if (newEmail === user.email) {
+      sendError(res, 'Email change failed', 'New email must be different from the current email', 400);
+      return;
+    }
+
+    const existingUser = await User.findOne({ email: newEmail });
+    if (existingUser) {
+      sendError(res, 'Email already registered', 'This email is already registered by another user', 409);
+      return;
+    }
+
+    // The address only changes once the link sent to it is opened, so a typo
+    // or an address the user does not own can never lock them out.
+    const token = generateRandomToken();
+    user.pendingEmail = newEmail;
+    user.emailChangeToken = hashToken(token);
+    user.emailChangeExpires = new Date(
+      Date.now() + authConfig.emailVerificationExpiryHours * 60 * 60 * 1000
+    );
+    await user.save();
+
+    try {
+      await sendEmailChangeConfirmationEmail(user, newEmail, token);
+    } catch (mailError) {
+      console.error('Email change confirmation error:', mailError);
+      // Without the link the pending change can never complete; drop it so
+      // the request can simply be repeated.
+      await User.updateOne(
+        { _id: user._id, emailChangeToken: user.emailChangeToken },
+        { $unset: { pendingEmail: 1, emailChangeToken: 1, emailChangeExpires: 1 } }
+      );
+      sendError(res, 'Email change failed', 'The confirmation email could not be sent. Please try again', 502);
+      return;
+    }
+
+    try {
+      await sendEmailChangeRequestedEmail(user, newEmail);
+    } catch (mailError) {
+      console.error('Email change notice error:', mailError);
+    }
+
+    sendSuccess(res, 'A confirmation link has been sent to the new email address', {
+      pendingEmail: newEmail,
+    });
+  } catch (error) {
+    console.error('Request email change error:', error);
+    sendError(res, 'Email change failed', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
+export const confirmEmailChange = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      sendError(res, 'Validation failed', errors.array()[0].msg, 400);
+      return;
+    }
+
+    const { token } = req.body;
+
+    const user = await User.findOne({
+      emailChangeToken: hashToken(token),
+      emailChangeExpires: { $gt: new Date() },
+    });
+
+    if (!user || !user.pendingEmail) {
+      sendError(res, 'Email change failed', 'Invalid or expired confirmation token', 400);
+      return;
+    }
+
+    const existingUser = await User.findOne({ email: user.pendingEmail, _id: { $ne: user._id } });
+    if (existingUser) {
+      sendError(res, 'Email already registered', 'This email is already registered by another user', 409);
+      return;
+    }
+
+    user.email = user.pendingEmail;
+    user.emailVerified = true;
+    user.pendingEmail = undefined;
+    user.emailChangeToken = undefined;
+    user.emailChangeExpires = undefined;
+
+    // Access tokens carry the email, so outstanding ones are retired. Sessions
+    // stay, and refreshing them issues tokens with the new address.
+    await revokeAllAccessTokens(user, 'email_change');
+
+    sendSuccess(res, 'Email changed successfully', {
+      user: {
+        id: user._id,
+        email: user.email,
+        emailVerified: user.emailVerified,
+      },
+    });
+  } catch (error) {
+    console.error('Confirm email change error:', error);
+    sendError(res, 'Email change failed', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
+export const exportAccountData = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.userId);
+    if (!user) {
+      sendError(res, 'User not found', 'User profile not found', 404);
+      return;
+    }
+
+    const groupFilters = await getMemberHistoryFilters(user._id.toString());
+    const [sessions, securityEvents, friendships, messages] = await Promise.all([
+      Session.find({ user: user._id })
+        .select('deviceName userAgent ip createdAt lastUsedAt')
+        .lean(),
+      SecurityEvent.find({ user: user._id })
+        .select('type deviceName ip userAgent createdAt')
+        .lean(),
+      Friendship.find({ $or: [{ requester: user._id }, { recipient: user._id }] })
+        .populate('requester recipient', 'username')
+        .lean(),
+      Message.find({
+        $or: [{ sender: user._id }, { receiver: user._id }, ...groupFilters],
+        ...visibleTo(user._id.toString()),
+      })
+        // Who else deleted a message for themselves is private to them.
+        .select('-deletedFor')
+        .sort({ createdAt: 1 })
+        .lean(),
+    ]);
+
+    const exportedAt = new Date();
+    const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+    const archive = createZip(
+      [
+        {
+          name: 'README.txt',
+          data: [
+            `ClashChat data export for ${user.username}`,
+            `Generated at ${exportedAt.toISOString()}`,
+            '',
+            'profile.json       Your account details',
+            'sessions.json      Devices currently logged in',
+            'security.json      Security events recorded on your account',
+            'friendships.json   Friends and friend requests',
+            'messages.json      Every message you sent or received, including in your groups,',
+            '                   except those you deleted for yourself or that have disappeared',
+          ].join('\n'),
+        },
+        {
+          name: 'profile.json',
+          data: json({
+            id: user._id,
+            username: user.username,
+            email: user.email,
+            avatar: user.avatar,
+            status: user.status,
+            emailVerified: user.emailVerified,
+            mfaEnabled: user.mfaEnabled,
+            identities: user.identities.map(({ provider, email, linkedAt }) => ({
+              provider,
+              email,
+              linkedAt,
+            })),
+            lastSeen: user.lastSeen,
+            createdAt: user.createdAt,
+            updatedAt: user.updatedAt,
+          }),
+        },
+        { name: 'sessions.json', data: json(sessions) },
+        { name: 'security.json', data: json(securityEvents) },
+        { name: 'friendships.json', data: json(friendships) },
+        { name: 'messages.json', data: json(messages) },
+      ],
+      exportedAt
+    );
+
+    const fileDate = exportedAt.toISOString().slice(0, 10);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="clashchat-export-${fileDate}.zip"`
+    );
+    res.send(archive);
+  } catch (error) {
+    console.error('Export account error:', error);
+    sendError(res, 'Failed to export account data', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
+export const deleteAccount = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      sendError(res, 'Validation failed', errors.array()[0].msg, 400);
+      return;
+    }
+
+    const { password, confirmation, code, recoveryCode } = req.body;
+
+    const user = await User.findById(req.userId).select(
+      '+password +mfaSecret +mfaRecoveryCodes +mfaLastUsedStep +failedLoginAttempts +lockUntil'
+    );
+    if (!user) {
+      sendError(res, 'User not found', 'User profile not found', 404);
+      return;
+    }
+
+    const lockedForMs = getLockoutRemainingMs(user);
+    if (lockedForMs > 0) {
+      sendLocked(res, lockedForMs);
+      return;
+    }
+
+    if (user.password) {
+      const isPasswordValid = password ? await user.comparePassword(password) : false;
+      if (!isPasswordValid) {
+        await rejectFailedCheck(res, user, 'Account deletion failed', 'Invalid password');
+        return;
+      }
+    } else if (confirmation !== 'DELETE') {
+      // Accounts that only sign in through an identity provider have no password.
+      sendError(res, 'Confirmation required', 'Send confirmation: "DELETE" to delete this account', 400);
+      return;
+    }
+
+    if (user.mfaEnabled && !consumeMfaCode(user, code, recoveryCode)) {
+      await rejectFailedCheck(res, user, 'Account deletion failed', 'Invalid authentication code');
+      return;
+    }
+    await clearFailedLogins(user);
+
+    const graceDays = authConfig.accountDeletionGraceDays;
+    const scheduledFor = new Date(Date.now() + graceDays * 24 * 60 * 60 * 1000);
+
+    user.deletionRequestedAt = new Date();
+    user.deletionScheduledFor = scheduledFor;
+    await revokeAllAccessTokens(user, 'account_deletion');
+    await Session.deleteMany({ user: user._id });
+
+    if (graceDays === 0) {
+      await anonymizeUser(user);
+      sendSuccess(res, 'Account deleted');
+      return;
+    }
+
+    try {
+      await sendAccountDeletionEmail(user, scheduledFor);
+    } catch (mailError) {
+      console.error('Account deletion email error:', mailError);
+    }
+
+    sendSuccess(res, 'Account scheduled for deletion. Log in again before the deadline to cancel', {
+      scheduledFor,
+      gracePeriodDays: graceDays,
+    });
+  } catch (error) {
+    console.error('Delete account error:', error);
+    sendError(res, 'Failed to delete account', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
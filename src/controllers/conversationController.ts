@@ -0,0 +1,160 @@
+import { Request, Response } from 'express';
+import { sendSuccess, sendError } from '../utils/response';
+import { MessageError, deliverMessage } from '../utils/messageHelper';
+import {
+  loadGroup,
+  createGroup,
+  renameGroup,
+  addMembers,
+  removeMember,
+  changeMemberRole,
+  leaveGroup,
+  markConversationRead,
+  serializeConversation,
+  emitConversationUpdate,
+} from '../utils/groupConversations';
+
+const handleGroupError = (res: Response, error: unknown, fallbackMessage: string): void => {
+  if (error instanceof MessageError) {
+    sendError(res, fallbackMessage, error.message, error.statusCode);
+    return;
+  }
+  sendError(res, fallbackMessage, error instanceof Error ? error.message : 'Unknown error', 500);
+};
+
+export const createConversation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { conversation, message } = await createGroup(req.userId as string, req.body.name, req.body.memberIds);
+
+    // Members learn about the group before its first message arrives.
+    await emitConversationUpdate(conversation._id.toString(), conversation);
+    const payload = await deliverMessage(message);
+
+    sendSuccess(
+      res,
+      'Group created successfully',
+      { conversation: await serializeConversation(conversation), message: payload },
+      201
+    );
+  } catch (error) {
+    console.error('Create group error:', error);
+    handleGroupError(res, error, 'Failed to create group');
+  }
+};
+
+export const getConversation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const conversation = await loadGroup(req.params.conversationId, req.userId as string);
+    sendSuccess(res, 'Group retrieved successfully', {
+      conversation: await serializeConversation(conversation),
+    });
+  } catch (error) {
+    console.error('Get group error:', error);
+    handleGroupError(res, error, 'Failed to retrieve group');
+  }
+};
+
+export const readConversation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId as string;
+    const conversation = await loadGroup(req.params.conversationId, userId);
+    const unreadCount = await markConversationRead(userId, conversation, req.body?.messageId);
+
+    sendSuccess(res, 'Group marked as read', { conversationId: conversation._id, unreadCount });
+  } catch (error) {
+    console.error('Mark group read error:', error);
+    handleGroupError(res, error, 'Failed to mark group as read');
+  }
+};
+
+export const renameConversation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { conversationId } = req.params;
+    const { conversation, message } = await renameGroup(req.userId as string, conversationId, req.body.name);
+
+    let payload = null;
+    if (message) {
+      await emitConversationUpdate(conversationId, conversation);
+      payload = await deliverMessage(message);
+    }
+
+    sendSuccess(res, 'Group updated successfully', {
+      conversation: await serializeConversation(conversation),
+      message: payload,
+    });
+  } catch (error) {
+    console.error('Rename group error:', error);
+    handleGroupError(res, error, 'Failed to update group');
+  }
+};
+
+export const addConversationMembers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { conversationId } = req.params;
+    const { conversation, message } = await addMembers(req.userId as string, conversationId, req.body.userIds);
+
+    await emitConversationUpdate(conversationId, conversation);
+    const payload = await deliverMessage(message);
+
+    sendSuccess(res, 'Members added successfully', {
+      conversation: await serializeConversation(conversation),
+      message: payload,
+    });
+  } catch (error) {
+    console.error('Add group members error:', error);
+    handleGroupError(res, error, 'Failed to add members');
+  }
+};
+
+export const removeConversationMember = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { conversationId, userId: memberId } = req.params;
+    const { conversation, message } = await removeMember(req.userId as string, conversationId, memberId);
+
+    await emitConversationUpdate(conversationId, conversation, [memberId]);
+    const payload = await deliverMessage(message);
+
+    sendSuccess(res, 'Member removed successfully', {
+      conversation: await serializeConversation(conversation),
+      message: payload,
+    });
+  } catch (error) {
+    console.error('Remove group member error:', error);
+    handleGroupError(res, error, 'Failed to remove member');
+  }
+};
+
+export const updateConversationMember = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { conversationId, userId: memberId } = req.params;
+    const conversation = await changeMemberRole(req.userId as string, conversationId, memberId, req.body.role);
+
+    await emitConversationUpdate(conversationId, conversation);
+
+    sendSuccess(res, 'Member role updated successfully', {
+      conversation: await serializeConversation(conversation),
+    });
+  } catch (error) {
+    console.error('Update group member error:', error);
+    handleGroupError(res, error, 'Failed to update member role');
+  }
+};
+
+export const leaveConversation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId as string;
+    const { conversationId } = req.params;
+    const { conversation, message } = await leaveGroup(userId, conversationId);
+
+    // Also tells the user's other devices.
+    await emitConversationUpdate(conversationId, conversation, [userId]);
+    if (message) {
+      await deliverMessage(message);
+    }
+
+    sendSuccess(res, 'Left the group successfully');
+  } catch (error) {
+    console.error('Leave group error:', error);
+    handleGroupError(res, error, 'Failed to leave group');
+  }
+};
@@ -1,8 +1,13 @@
 import { Request, Response } from "express";
-import { User } from "../models/User";
+import { User, DELETED_USER_NAME } from "../models/User";
 import { Friendship } from "../models/Friendship";
 import { sendSuccess, sendError } from "../utils/response";
 import { mapUserWithFriendshipStatus } from "../utils/friendshipHelper";
+import {
+  ensureDirectConversation,
+  rebuildConversation,
+  removeDirectConversation,
+} from "../utils/conversationHelper";
 import mongoose from "mongoose";
 
 export const getFriends = async (
@@ -51,7 +56,7 @@ export const getFriends = async (
         { recipient: userId, status: "accepted" }
       ]
     })
-      .populate("requester recipient", "username email avatar status lastSeen")
+      .populate("requester recipient", "username email avatar status lastSeen deletedAt")
       .sort({ updatedAt: -1 })
       .skip(offset)
       .limit(limit)
@@ -62,8 +67,10 @@ export const getFriends = async (
       const friend = friendship.requester._id.toString() === userId 
         ? friendship.recipient 
         : friendship.requester;
+      const deleted = Boolean((friend as { deletedAt?: Date }).deletedAt);
       return {
         ...friend,
+        ...(deleted && { username: DELETED_USER_NAME, email: "", avatar: "" }),
         friendshipId: friendship._id,
         since: friendship.updatedAt
       };
@@ -115,10 +122,12 @@ export const getAllUsers = async (
 
     const totalCount = await User.countDocuments({
       _id: { $nin: [userId] },
+      deletedAt: { $exists: false },
     });
 
     const users = await User.find({
       _id: { $nin: [userId] },
+      deletedAt: { $exists: false },
     })
       .select("username email avatar status")
       .sort({ createdAt: -1 })
@@ -180,6 +189,7 @@ export const searchUsers = async (
 
     const users = await User.find({
       _id: { $ne: userId },
+      deletedAt: { $exists: false },
       $or: [
         { username: { $regex: query, $options: "i" } },
         { email: { $regex: query, $options: "i" } },
@@ -229,7 +239,7 @@ export const sendFriendRequest = async (
     }
 
     const recipient = await User.findById(recipientId);
-    if (!recipient) {
+    if (!recipient || recipient.deletedAt) {
       sendError(res, "User not found", "Recipient does not exist", 404);
       return;
     }
@@ -313,6 +323,8 @@ export const acceptFriendRequest = async (
 
     friendship.status = "accepted";
     await friendship.save();
+    // Brings back the chat of an earlier friendship, if any.
+    await rebuildConversation(await ensureDirectConversation(friendship));
 
     await friendship.populate("requester", "username email avatar status");
 
@@ -419,6 +431,8 @@ export const removeFriend = async (
       return;
     }
 
+    await removeDirectConversation(userId as string, friendId);
+
     sendSuccess(res, "Friend removed successfully");
   } catch (error) {
     console.error("Remove friend error:", error);
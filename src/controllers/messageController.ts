@@ -1,56 +1,240 @@
 import { Request, Response } from 'express';
-import { Message } from '../models/Message';
-import { Friendship } from '../models/Friendship';
+import { Message, IMessage } from '../models/Message';
+import { User, DELETED_USER_NAME, PUBLIC_USER_FIELDS } from '../models/User';
+import { Friendship, IFriendship } from '../models/Friendship';
+import { Conversation, IConversationMember, IConversationLastMessage } from '../models/Conversation';
 import { sendSuccess, sendError } from '../utils/response';
+import {
+  MessageError,
+  createMessage,
+  deliverMessage,
+  forwardMessages,
+  markMessagesRead,
+  refreshLinkPreview,
+  serializeMessages,
+  editMessage,
+  deleteMessage,
+  emitToParticipants,
+  canAccessMessage,
+  reactToMessage,
+  emitReactionUpdate,
+  summarizeReactions,
+  ReactionAction,
+} from '../utils/messageHelper';
+import {
+  scheduleMessage,
+  editScheduledMessage,
+  cancelScheduledMessage,
+  serializeScheduledMessages,
+  UNSENT_STATUSES,
+} from '../utils/scheduledMessageHelper';
+import { ScheduledMessage } from '../models/ScheduledMessage';
+import { setDisappearingTimer, emitDisappearingTimerChange } from '../utils/disappearingMessages';
+import { changePin, emitPinUpdate, getPinnedMessages, PinAction } from '../utils/pinnedMessages';
+import { findAcceptedFriendship } from '../utils/friendshipHelper';
+import {
+  getMemberHistoryFilters,
+  memberHistoryFilter,
+  visibleTo,
+  getDirectUnreadCount,
+} from '../utils/conversationHelper';
+import { loadGroup } from '../utils/groupConversations';
+import { extractSearchTerms, buildSearchSnippet } from '../utils/searchSnippet';
+import { emitToUser } from '../socket/emitter';
 import mongoose from 'mongoose';
 
+const handleMessageError = (res: Response, error: unknown, fallbackMessage: string): void => {
+  if (error instanceof MessageError) {
+    sendError(res, fallbackMessage, error.message, error.statusCode);
+    return;
+  }
+  sendError(res, fallbackMessage, error instanceof Error ? error.message : 'Unknown error', 500);
+};
+
+type MessageFilter = Record<string, unknown>;
+
+const conversationBranches = (userId: string, friendId: string): MessageFilter[] => [
+  { sender: userId, receiver: friendId },
+  { sender: friendId, receiver: userId },
+];
+
+/**
+ * Messages strictly older or newer than `anchor`. `createdAt` is bounded in
+ * each branch so every branch of the `$or` stays on its
+ * `{ sender, receiver, createdAt, _id }` or `{ conversation, createdAt, _id }`
+ * index, and `_id` breaks ties
+ * between messages created in the same millisecond.
+ */
+const relativeTo = (
+  branches: MessageFilter[],
+  anchor: { _id: mongoose.Types.ObjectId; createdAt: Date },
+  direction: 'older' | 'newer'
+): MessageFilter => ({
+  $or: branches.map((branch) => ({
+    ...branch,
+    createdAt: { [direction === 'older' ? '$lte' : '$gte']: anchor.createdAt },
+  })),
+  $nor: [
+    {
+      createdAt: anchor.createdAt,
+      _id: { [direction === 'older' ? '$gte' : '$lte']: anchor._id },
+    },
+  ],
+});
+
+const findPage = async (
+  filter: MessageFilter,
+  direction: 'older' | 'newer',
+  limit: number
+) => {
+  const order = direction === 'older' ? -1 : 1;
+  const messages = await Message.find(filter)
+    .sort({ createdAt: order, _id: order })
+    .limit(limit + 1)
+    .populate('sender receiver', PUBLIC_USER_FIELDS);
+
+  const hasMore = messages.length > limit;
+  const page = messages.slice(0, limit);
+  // Always hand back chronological order.
+  return { messages: direction === 'older' ? page.reverse() : page, hasMore };
+};
+
+interface MessagePage {
+  messages: IMessage[];
+  pagination: Record<string, unknown>;
+}
+
+/**
+ * Reads the `before`/`after`/`around` cursor or `skip`, and `limit`, from
+ * the query and loads that page of the conversation matched by `branches`.
+ * Sends the error response and resolves to null on an invalid cursor.
+ */
+const loadMessagePage = async (
+  req: Request,
+  res: Response,
+  userId: string,
+  branches: MessageFilter[]
+): Promise<MessagePage | null> => {
+  const { before, after, around } = req.query;
+  const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string, 10) || 50));
+  const skip = Math.max(0, parseInt(req.query.skip as string, 10) || 0);
+
+  const cursors = { before, after, around };
+  const cursorEntries = Object.entries(cursors).filter(([, value]) => value !== undefined);
+  if (cursorEntries.length > 1) {
+    sendError(res, 'Invalid cursor', 'Use only one of before, after or around', 400);
+    return null;
+  }
+
+  const [cursorName, cursorValue] = cursorEntries[0] ?? [];
+  if (cursorName && (typeof cursorValue !== 'string' || !mongoose.Types.ObjectId.isValid(cursorValue))) {
+    sendError(res, 'Invalid cursor', `${cursorName} must be a valid message ID`, 400);
+    return null;
+  }
+
+  let anchor: IMessage | null = null;
+  if (cursorName) {
+    // Not limited to visible messages: a `before`/`after` cursor stays usable
+    // after its message was deleted for the caller.
+    anchor = await Message.findOne({ _id: cursorValue, $or: branches });
+    if (!anchor) {
+      sendError(res, 'Message not found', 'The cursor message does not belong to this conversation', 404);
+      return null;
+    }
+  }
+
+  const visibleBranches = branches.map((branch) => ({ ...branch, ...visibleTo(userId) }));
+
+  let messages: IMessage[];
+  let hasOlder: boolean;
+  let hasNewer: boolean;
+
+  if (anchor && cursorName === 'around') {
+    // The anchor plus roughly equal context on each side.
+    const olderLimit = Math.floor((limit - 1) / 2);
+    const [older, newer] = await Promise.all([
+      findPage(relativeTo(visibleBranches, anchor, 'older'), 'older', olderLimit),
+      findPage(relativeTo(visibleBranches, anchor, 'newer'), 'newer', limit - 1 - olderLimit),
+    ]);
+    await anchor.populate('sender receiver', PUBLIC_USER_FIELDS);
+
+    const anchorVisible =
+      !anchor.deletedFor.some((id) => id.toString() === userId) &&
+      !(anchor.expiresAt && anchor.expiresAt <= new Date());
+    messages = [...older.messages, ...(anchorVisible ? [anchor] : []), ...newer.messages];
+    hasOlder = older.hasMore;
+    hasNewer = newer.hasMore;
+  } else if (anchor && cursorName === 'after') {
+    const page = await findPage(relativeTo(visibleBranches, anchor, 'newer'), 'newer', limit);
+    messages = page.messages;
+    hasOlder = Boolean(await Message.exists(relativeTo(visibleBranches, messages[0] ?? anchor, 'older')));
+    hasNewer = page.hasMore;
+  } else if (anchor) {
+    const page = await findPage(relativeTo(visibleBranches, anchor, 'older'), 'older', limit);
+    messages = page.messages;
+    hasOlder = page.hasMore;
+    hasNewer = Boolean(
+      await Message.exists(relativeTo(visibleBranches, messages[messages.length - 1] ?? anchor, 'newer'))
+    );
+  } else {
+    // Latest messages. `skip` is kept for older clients; cursors are stable
+    // while new messages arrive and do not slow down with depth.
+    const latest = await Message.find({ $or: visibleBranches })
+      .sort({ createdAt: -1, _id: -1 })
+      .skip(skip)
+      .limit(limit + 1)
+      .populate('sender receiver', PUBLIC_USER_FIELDS);
+
+    hasOlder = latest.length > limit;
+    hasNewer = skip > 0;
+    messages = latest.slice(0, limit).reverse();
+  }
+
+  // An empty page hands back the request cursor, to retry later.
+  const oldest = messages[0] ?? anchor;
+  const newest = messages[messages.length - 1] ?? anchor;
+
+  return {
+    messages,
+    pagination: {
+      limit,
+      // Pass as `before` to load older messages.
+      nextCursor: hasOlder && oldest ? oldest._id : null,
+      // Pass as `after` to load newer messages.
+      prevCursor: hasNewer && newest ? newest._id : null,
+      hasOlder,
+      hasNewer,
+    },
+  };
+};
+
 export const getMessages = async (req: Request, res: Response): Promise<void> => {
   try {
     const { friendId } = req.params;
-    const userId = req.userId;
-    const { limit = 50, skip = 0 } = req.query;
+    const userId = req.userId as string;
 
     if (!mongoose.Types.ObjectId.isValid(friendId)) {
       sendError(res, 'Invalid friend ID', 'Please provide a valid friend ID', 400);
       return;
     }
 
-    const friendship = await Friendship.findOne({
-      $or: [
-        { requester: userId, recipient: friendId },
-        { requester: friendId, recipient: userId },
-      ],
-      status: 'accepted',
-    });
+    const friendship = await findAcceptedFriendship(userId, friendId);
 
     if (!friendship) {
       sendError(res, 'Not friends', 'You can only view messages with friends', 403);
       return;
     }
 
-    const messages = await Message.find({
-      $or: [
-        { sender: userId, receiver: friendId },
-        { sender: friendId, receiver: userId },
-      ],
-    })
-      .sort({ createdAt: -1 })
-      .limit(Number(limit))
-      .skip(Number(skip))
-      .populate('sender receiver', 'username avatar');
-
-    const unreadMessages = await Message.updateMany(
-      {
-        sender: friendId,
-        receiver: userId,
-        status: { $ne: 'read' },
-      },
-      { status: 'read' }
-    );
+    const page = await loadMessagePage(req, res, userId, conversationBranches(userId, friendId));
+    if (!page) {
+      return;
+    }
 
     sendSuccess(res, 'Messages retrieved successfully', {
-      messages: messages.reverse(),
-      unreadCount: unreadMessages.modifiedCount,
+      messages: await serializeMessages(page.messages, userId),
+      disappearingTimer: friendship.disappearingTimer,
+      unreadCount: await getDirectUnreadCount(userId, friendId),
+      pagination: page.pagination,
     });
   } catch (error) {
     console.error('Get messages error:', error);
@@ -58,48 +242,432 @@ export const getMessages = async (req: Request, res: Response): Promise<void> =>
   }
 };
 
-export const sendMessage = async (req: Request, res: Response): Promise<void> => {
+export const getConversationMessages = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { receiverId, content, messageType = 'text' } = req.body;
-    const senderId = req.userId;
+    const userId = req.userId as string;
+    const conversation = await loadGroup(req.params.conversationId, userId);
 
-    if (!receiverId || !content) {
-      sendError(res, 'Missing required fields', 'Receiver ID and content are required', 400);
+    const page = await loadMessagePage(req, res, userId, [memberHistoryFilter(conversation, userId)]);
+    if (!page) {
       return;
     }
 
-    if (!mongoose.Types.ObjectId.isValid(receiverId)) {
-      sendError(res, 'Invalid receiver ID', 'Please provide a valid receiver ID', 400);
+    const member = conversation.members.find((entry) => entry.user.equals(userId));
+
+    sendSuccess(res, 'Messages retrieved successfully', {
+      messages: await serializeMessages(page.messages, userId),
+      unreadCount: member?.unreadCount ?? 0,
+      pagination: page.pagination,
+    });
+  } catch (error) {
+    console.error('Get group messages error:', error);
+    handleMessageError(res, error, 'Failed to retrieve messages');
+  }
+};
+
+export const readMessages = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const receipt = await markMessagesRead(req.userId as string, req.params.friendId, req.body.messageId);
+    sendSuccess(res, 'Messages marked as read', receipt);
+  } catch (error) {
+    console.error('Mark messages read error:', error);
+    handleMessageError(res, error, 'Failed to mark messages as read');
+  }
+};
+
+const parseDate = (value: unknown): Date | null | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export const searchMessages = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId as string;
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const { friendId, conversationId, messageType } = req.query;
+    const page = Math.max(1, parseInt(req.query.page as string, 10) || 1);
+    const limit = Math.min(50, Math.max(1, parseInt(req.query.limit as string, 10) || 20));
+
+    if (!q || q.length > 200) {
+      sendError(res, 'Search query required', 'Please provide a search query of at most 200 characters', 400);
       return;
     }
 
-    const friendship = await Friendship.findOne({
-      $or: [
-        { requester: senderId, recipient: receiverId },
-        { requester: receiverId, recipient: senderId },
-      ],
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+      sendError(res, 'Invalid date', 'from and to must be valid dates', 400);
+      return;
+    }
+
+    if (messageType !== undefined && !['text', 'image', 'file'].includes(messageType as string)) {
+      sendError(res, 'Invalid message type', 'messageType must be text, image or file', 400);
+      return;
+    }
+
+    if (friendId !== undefined && (typeof friendId !== 'string' || !mongoose.Types.ObjectId.isValid(friendId))) {
+      sendError(res, 'Invalid friend ID', 'Please provide a valid friend ID', 400);
+      return;
+    }
+
+    if (
+      conversationId !== undefined &&
+      (typeof conversationId !== 'string' || !mongoose.Types.ObjectId.isValid(conversationId))
+    ) {
+      sendError(res, 'Invalid conversation ID', 'Please provide a valid conversation ID', 400);
+      return;
+    }
+
+    if (friendId && conversationId) {
+      sendError(res, 'Invalid filter', 'Use only one of friendId or conversationId', 400);
+      return;
+    }
+
+    // Only conversations the user can currently open: accepted friendships,
+    // which also leaves out blocked users.
+    const friendships = await Friendship.find({
+      $or: [{ requester: userId }, { recipient: userId }],
       status: 'accepted',
-    });
+    }).select('requester recipient');
+    let friendIds = friendships.map((friendship) =>
+      friendship.requester.toString() === userId
+        ? friendship.recipient.toString()
+        : friendship.requester.toString()
+    );
 
-    if (!friendship) {
-      sendError(res, 'Not friends', 'You can only send messages to friends', 403);
+    if (friendId) {
+      if (!friendIds.includes(friendId as string)) {
+        sendError(res, 'Not friends', 'You can only search messages with friends', 403);
+        return;
+      }
+      friendIds = [friendId as string];
+    }
+
+    let groupFilters = friendId ? [] : await getMemberHistoryFilters(userId);
+    if (conversationId) {
+      groupFilters = groupFilters.filter((group) => group.conversation.equals(conversationId as string));
+      if (!groupFilters.length) {
+        sendError(res, 'Not a member', 'You can only search groups you are a member of', 403);
+        return;
+      }
+      friendIds = [];
+    }
+
+    if (friendIds.length === 0 && groupFilters.length === 0) {
+      sendSuccess(res, 'Search completed', { results: [], pagination: { page, limit, hasMore: false } });
       return;
     }
 
-    const message = await Message.create({
-      sender: senderId,
-      receiver: receiverId,
+    const filter = {
+      $text: { $search: q },
+      $or: [
+        ...(friendIds.length
+          ? [
+              { sender: userId, receiver: { $in: friendIds } },
+              { sender: { $in: friendIds }, receiver: userId },
+            ]
+          : []),
+        ...groupFilters,
+      ],
+      deletedAt: { $exists: false },
+      ...visibleTo(userId),
+      messageType: messageType ? (messageType as string) : { $ne: 'system' },
+      ...(from || to
+        ? { createdAt: { ...(from && { $gte: from }), ...(to && { $lte: to }) } }
+        : {}),
+    };
+
+    const matches = await Message.find(filter, { score: { $meta: 'textScore' } })
+      .sort({ score: { $meta: 'textScore' }, createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit + 1)
+      .populate('sender receiver', PUBLIC_USER_FIELDS);
+
+    const terms = extractSearchTerms(q);
+    const results = matches.slice(0, limit).map((message) => {
+      const senderId = message.sender._id.toString();
+      return {
+        messageId: message._id,
+        // Open the conversation with `GET /api/messages/:friendId?around=:messageId`,
+        // or `GET /api/conversations/:conversationId/messages?around=:messageId` for a group.
+        friendId: message.conversation
+          ? null
+          : senderId === userId
+            ? message.receiver?._id
+            : message.sender._id,
+        conversationId: message.conversation ?? null,
+        sender: message.sender,
+        messageType: message.messageType,
+        createdAt: message.createdAt,
+        snippet: buildSearchSnippet(message.content, terms),
+      };
+    });
+
+    sendSuccess(res, 'Search completed', {
+      results,
+      pagination: { page, limit, hasMore: matches.length > limit },
+    });
+  } catch (error) {
+    console.error('Search messages error:', error);
+    sendError(res, 'Search failed', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
+
+export const sendMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { receiverId, conversationId, content, messageType = 'text', replyTo, attachmentId, sendAt } =
+      req.body;
+    const input = {
+      senderId: req.userId as string,
+      receiverId,
+      conversationId,
       content,
       messageType,
-      status: 'sent',
-    });
+      replyTo,
+      attachmentId,
+    };
+
+    if (sendAt !== undefined && sendAt !== null) {
+      const scheduled = await scheduleMessage({ ...input, sendAt });
+      const [payload] = await serializeScheduledMessages([scheduled]);
+      sendSuccess(res, 'Message scheduled successfully', { scheduledMessage: payload }, 201);
+      return;
+    }
 
-    await message.populate('sender receiver', 'username avatar');
+    const message = await createMessage(input);
 
-    sendSuccess(res, 'Message sent successfully', { message }, 201);
+    const payload = await deliverMessage(message);
+
+    sendSuccess(res, 'Message sent successfully', { message: payload }, 201);
   } catch (error) {
     console.error('Send message error:', error);
-    sendError(res, 'Failed to send message', error instanceof Error ? error.message : 'Unknown error', 500);
+    handleMessageError(res, error, 'Failed to send message');
+  }
+};
+
+export const updateDisappearingTimer = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { timer } = req.body;
+    const message = await setDisappearingTimer(req.userId as string, req.params.friendId, timer);
+
+    let payload = null;
+    if (message) {
+      payload = await deliverMessage(message);
+      emitDisappearingTimerChange(message, payload);
+    }
+
+    sendSuccess(res, 'Disappearing messages updated successfully', {
+      disappearingTimer: timer,
+      message: payload,
+    });
+  } catch (error) {
+    console.error('Update disappearing timer error:', error);
+    handleMessageError(res, error, 'Failed to update disappearing messages');
+  }
+};
+
+export const getScheduledMessages = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId as string;
+    const { status = 'pending', receiverId } = req.query;
+
+    if (status !== 'pending' && status !== 'failed') {
+      sendError(res, 'Invalid status', 'Status must be "pending" or "failed"', 400);
+      return;
+    }
+
+    if (receiverId !== undefined && !mongoose.Types.ObjectId.isValid(receiverId as string)) {
+      sendError(res, 'Invalid receiver ID', 'Please provide a valid receiver ID', 400);
+      return;
+    }
+
+    const scheduledMessages = await ScheduledMessage.find({
+      sender: userId,
+      status: status === 'pending' ? { $in: UNSENT_STATUSES } : 'failed',
+      ...(receiverId ? { receiver: receiverId } : {}),
+    })
+      .sort({ sendAt: 1 })
+      .populate('receiver', PUBLIC_USER_FIELDS);
+
+    sendSuccess(res, 'Scheduled messages retrieved successfully', {
+      scheduledMessages: await serializeScheduledMessages(scheduledMessages),
+    });
+  } catch (error) {
+    console.error('Get scheduled messages error:', error);
+    handleMessageError(res, error, 'Failed to retrieve scheduled messages');
+  }
+};
+
+export const updateScheduledMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const scheduled = await editScheduledMessage(req.userId as string, req.params.scheduledMessageId, {
+      content: req.body.content,
+      sendAt: req.body.sendAt,
+    });
+
+    const [payload] = await serializeScheduledMessages([scheduled]);
+    sendSuccess(res, 'Scheduled message updated successfully', { scheduledMessage: payload });
+  } catch (error) {
+    console.error('Update scheduled message error:', error);
+    handleMessageError(res, error, 'Failed to update scheduled message');
+  }
+};
+
+export const removeScheduledMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await cancelScheduledMessage(req.userId as string, req.params.scheduledMessageId);
+    sendSuccess(res, 'Scheduled message cancelled successfully');
+  } catch (error) {
+    console.error('Cancel scheduled message error:', error);
+    handleMessageError(res, error, 'Failed to cancel scheduled message');
+  }
+};
+
+export const forwardMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { messageIds, receiverIds } = req.body;
+
+    const { messages, failed } = await forwardMessages(req.userId as string, messageIds, receiverIds);
+
+    const payload = [];
+    for (const message of messages) {
+      payload.push(await deliverMessage(message));
+    }
+
+    sendSuccess(res, 'Messages forwarded successfully', { messages: payload, failed }, 201);
+  } catch (error) {
+    console.error('Forward message error:', error);
+    handleMessageError(res, error, 'Failed to forward messages');
+  }
+};
+
+export const updateMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId as string;
+    const message = await editMessage(userId, req.params.messageId, req.body.content);
+
+    const [payload] = await serializeMessages([message]);
+    await emitToParticipants(message, 'message_edited', payload);
+    refreshLinkPreview(message);
+
+    sendSuccess(res, 'Message updated successfully', { message: payload });
+  } catch (error) {
+    console.error('Edit message error:', error);
+    handleMessageError(res, error, 'Failed to edit message');
+  }
+};
+
+export const removeMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId as string;
+    const { message, scope } = await deleteMessage(
+      userId,
+      req.params.messageId,
+      req.query.scope ?? req.body?.scope ?? 'me'
+    );
+
+    const payload = { messageId: message._id, scope };
+    if (scope === 'everyone') {
+      await emitToParticipants(message, 'message_deleted', payload);
+    } else {
+      // Keeps the caller's other devices in sync.
+      emitToUser(userId, 'message_deleted', payload);
+    }
+
+    sendSuccess(
+      res,
+      scope === 'everyone' ? 'Message deleted for everyone' : 'Message deleted for you',
+      payload
+    );
+  } catch (error) {
+    console.error('Delete message error:', error);
+    handleMessageError(res, error, 'Failed to delete message');
+  }
+};
+
+const changeReaction = (action: ReactionAction) =>
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.userId as string;
+      const emoji = action === 'add' ? req.body.emoji : req.params.emoji;
+      const message = await reactToMessage(userId, req.params.messageId, emoji, action);
+
+      await emitReactionUpdate(message, { userId, emoji, action });
+
+      sendSuccess(res, action === 'add' ? 'Reaction added' : 'Reaction removed', {
+        messageId: message._id,
+        reactions: summarizeReactions(message, userId),
+      });
+    } catch (error) {
+      console.error('Message reaction error:', error);
+      handleMessageError(res, error, action === 'add' ? 'Failed to add reaction' : 'Failed to remove reaction');
+    }
+  };
+
+export const addReaction = changeReaction('add');
+
+export const removeReaction = changeReaction('remove');
+
+const changePinnedState = (action: PinAction) =>
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.userId as string;
+      const { message, pin } = await changePin(userId, req.params.messageId, action);
+
+      emitPinUpdate(message, { userId, action, pin });
+
+      sendSuccess(res, action === 'pin' ? 'Message pinned' : 'Message unpinned', {
+        messageId: message._id,
+        pinnedAt: pin?.pinnedAt ?? null,
+      });
+    } catch (error) {
+      console.error('Message pin error:', error);
+      handleMessageError(res, error, action === 'pin' ? 'Failed to pin message' : 'Failed to unpin message');
+    }
+  };
+
+export const pinMessage = changePinnedState('pin');
+
+export const unpinMessage = changePinnedState('unpin');
+
+export const getPins = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const pins = await getPinnedMessages(req.userId as string, req.params.friendId);
+    sendSuccess(res, 'Pinned messages retrieved successfully', { pins });
+  } catch (error) {
+    console.error('Get pinned messages error:', error);
+    handleMessageError(res, error, 'Failed to retrieve pinned messages');
+  }
+};
+
+export const getMessageHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { messageId } = req.params;
+    const userId = req.userId as string;
+
+    if (!mongoose.Types.ObjectId.isValid(messageId)) {
+      sendError(res, 'Invalid message ID', 'Please provide a valid message ID', 400);
+      return;
+    }
+
+    const message = await Message.findOne({ _id: messageId, ...visibleTo(userId) }).select(
+      '+editHistory'
+    );
+    if (!message || !(await canAccessMessage(message, userId))) {
+      sendError(res, 'Message not found', 'Message does not exist', 404);
+      return;
+    }
+
+    sendSuccess(res, 'Message history retrieved successfully', {
+      messageId: message._id,
+      content: message.content,
+      editedAt: message.editedAt ?? null,
+      revisions: message.editHistory ?? [],
+    });
+  } catch (error) {
+    console.error('Get message history error:', error);
+    sendError(res, 'Failed to retrieve message history', error instanceof Error ? error.message : 'Unknown error', 500);
   }
 };
 
@@ -107,161 +675,142 @@ export const getChats = async (req: Request, res: Response): Promise<void> => {
   try {
     const userId = req.userId;
     const { limit = 20, skip = 0 } = req.query;
+    const includeReactions = req.query.includeReactions === 'true';
 
     if (!userId) {
       sendError(res, 'User authentication required', 'User ID not found', 401);
       return;
     }
 
-    const chats = await Friendship.aggregate([
-      {
-        $match: {
-          $or: [{ requester: new mongoose.Types.ObjectId(userId) }, { recipient: new mongoose.Types.ObjectId(userId) }],
-          status: 'accepted'
-        }
-      },
-      {
-        $lookup: {
-          from: 'messages',
-          let: {
-            userId: new mongoose.Types.ObjectId(userId),
-            friendId: { 
-              $cond: [
-                { $eq: ['$requester', new mongoose.Types.ObjectId(userId)] }, 
-                '$recipient', 
-                '$requester'
-              ] 
-            }
-          },
-          pipeline: [
-            {
-              $match: {
-                $expr: {
-                  $or: [
-                    { $and: [{ $eq: ['$sender', '$$userId'] }, { $eq: ['$receiver', '$$friendId'] }] },
-                    { $and: [{ $eq: ['$sender', '$$friendId'] }, { $eq: ['$receiver', '$$userId'] }] }
-                  ]
-                }
-              }
-            },
-            { $sort: { createdAt: -1 } },
-            { $limit: 1 },
-            {
-              $lookup: {
-                from: 'users',
-                localField: 'sender',
-                foreignField: '_id',
-                as: 'sender'
-              }
-            },
-            { $unwind: '$sender' }
-          ],
-          as: 'lastMessage'
-        }
+    const viewerId = new mongoose.Types.ObjectId(userId);
+    // Each conversation carries its own summary, so the list is one query on
+    // the `{ members.user, lastMessageAt }` index. Chats whose messages the
+    // user all deleted for themselves are left out.
+    const filter = {
+      'members.user': viewerId,
+      lastMessageAt: { $exists: true },
+      members: {
+        $not: { $elemMatch: { user: viewerId, 'lastMessageOverride.lastMessage': { $type: 'null' } } },
       },
-      {
-        $match: { 'lastMessage.0': { $exists: true } }
-      },
-      {
-        $lookup: {
-          from: 'messages',
-          let: {
-            userId: new mongoose.Types.ObjectId(userId),
-            friendId: { 
-              $cond: [
-                { $eq: ['$requester', new mongoose.Types.ObjectId(userId)] }, 
-                '$recipient', 
-                '$requester'
-              ] 
-            }
-          },
-          pipeline: [
+    };
+
+    const [conversations, totalCount] = await Promise.all([
+      Conversation.find(filter)
+        .sort({ lastMessageAt: -1, _id: -1 })
+        .skip(Number(skip))
+        .limit(Number(limit))
+        .populate<{ friendship: IFriendship | null }>('friendship', 'disappearingTimer pins updatedAt'),
+      Conversation.countDocuments(filter),
+    ]);
+
+    const entries = conversations.map((conversation) => {
+      const member = conversation.members.find((entry) => entry.user.equals(viewerId)) as IConversationMember;
+      const friendId =
+        conversation.type === 'direct'
+          ? conversation.members.find((entry) => !entry.user.equals(viewerId))?.user
+          : undefined;
+      // A member who deleted the last message for themselves sees the one before.
+      const lastMessage = (
+        member.lastMessageOverride ? member.lastMessageOverride.lastMessage : conversation.lastMessage
+      ) as IConversationLastMessage;
+      return { conversation, member, friendId, lastMessage };
+    });
+
+    const friendIds = entries
+      .map(({ friendId }) => friendId)
+      .filter((id): id is mongoose.Types.ObjectId => Boolean(id));
+    const users = await User.find({
+      _id: { $in: [...friendIds, ...entries.map(({ lastMessage }) => lastMessage.sender)] },
+    }).select(PUBLIC_USER_FIELDS);
+    const usersById = new Map(users.map((user) => [user._id.toString(), user]));
+
+    // Latest reaction by each friend to one of the user's messages, for
+    // "X reacted 👍 to your message" activity in the chat list.
+    const reactions =
+      includeReactions && friendIds.length
+        ? await Message.aggregate([
             {
               $match: {
-                $expr: {
-                  $and: [
-                    { $eq: ['$sender', '$$friendId'] },
-                    { $eq: ['$receiver', '$$userId'] },
-                    { $ne: ['$status', 'read'] }
-                  ]
-                }
-              }
+                sender: viewerId,
+                receiver: { $in: friendIds },
+                'reactions.user': { $in: friendIds },
+                deletedFor: { $ne: viewerId },
+              },
             },
+            { $unwind: '$reactions' },
+            { $match: { $expr: { $eq: ['$reactions.user', '$receiver'] } } },
+            { $sort: { 'reactions.createdAt': -1 as const } },
             {
-              $count: 'unreadCount'
-            }
-          ],
-          as: 'unreadCount'
-        }
-      },
-      {
-        $lookup: {
-          from: 'users',
-          let: {
-            friendId: { 
-              $cond: [
-                { $eq: ['$requester', new mongoose.Types.ObjectId(userId)] }, 
-                '$recipient', 
-                '$requester'
-              ] 
-            }
-          },
-          pipeline: [
-            {
-              $match: {
-                $expr: { $eq: ['$_id', '$$friendId'] }
-              }
+              $group: {
+                _id: '$receiver',
+                messageId: { $first: '$_id' },
+                emoji: { $first: '$reactions.emoji' },
+                messageType: { $first: '$messageType' },
+                snippet: { $first: { $substrCP: ['$content', 0, 100] } },
+                createdAt: { $first: '$reactions.createdAt' },
+              },
             },
-            {
-              $project: {
-                _id: 1,
-                username: 1,
-                avatar: 1
-              }
-            }
-          ],
-          as: 'friend'
-        }
-      },
-      { $unwind: '$friend' },
-      { $unwind: '$lastMessage' },
-      {
-        $project: {
-          friendId: { 
-            $cond: [
-              { $eq: ['$requester', new mongoose.Types.ObjectId(userId)] }, 
-              '$recipient', 
-              '$requester'
-            ] 
-          },
-          friend: 1,
-          lastMessage: {
-            _id: '$lastMessage._id',
-            content: '$lastMessage.content',
-            messageType: '$lastMessage.messageType',
-            status: '$lastMessage.status',
-            createdAt: '$lastMessage.createdAt',
-            sender: {
-              _id: '$lastMessage.sender._id',
-              username: '$lastMessage.sender.username'
-            }
-          },
-          unreadCount: { $ifNull: [{ $arrayElemAt: ['$unreadCount.unreadCount', 0] }, 0] },
-          updatedAt: 1
-        }
-      },
-      { $sort: { 'lastMessage.createdAt': -1 } },
-      { $facet: {
-        chats: [{ $skip: Number(skip) }, { $limit: Number(limit) }],
-        total: [{ $count: 'count' }]
-      }}
-    ]);
+          ])
+        : [];
+    const reactionsByFriend = new Map(
+      reactions.map(({ _id, ...reaction }) => [_id.toString(), reaction])
+    );
 
-    const paginatedChats = chats[0]?.chats || [];
-    const totalCount = chats[0]?.total[0]?.count || 0;
+    const chats = entries.map(({ conversation, member, friendId, lastMessage }) => {
+      const sender = usersById.get(lastMessage.sender.toString());
+      const summary = {
+        _id: lastMessage.message,
+        content: lastMessage.content,
+        messageType: lastMessage.messageType,
+        ...(friendId && { status: lastMessage.status }),
+        deletedAt: lastMessage.deletedAt,
+        createdAt: lastMessage.createdAt,
+        sender: {
+          _id: lastMessage.sender,
+          username: sender && !sender.deletedAt ? sender.username : DELETED_USER_NAME,
+        },
+      };
+
+      if (!friendId) {
+        return {
+          _id: conversation._id,
+          type: 'group',
+          conversationId: conversation._id,
+          name: conversation.name,
+          role: member.role,
+          memberCount: conversation.members.length,
+          lastMessage: summary,
+          unreadCount: member.unreadCount ?? 0,
+          updatedAt: conversation.updatedAt,
+        };
+      }
+
+      const { friendship } = conversation;
+      const friend = usersById.get(friendId.toString());
+      const reaction = reactionsByFriend.get(friendId.toString());
+      return {
+        _id: friendship?._id,
+        type: 'direct',
+        friendId,
+        friend: {
+          _id: friendId,
+          username: friend && !friend.deletedAt ? friend.username : DELETED_USER_NAME,
+          avatar: friend && !friend.deletedAt ? friend.avatar : '',
+        },
+        disappearingTimer: friendship?.disappearingTimer ?? 'off',
+        hasPins: Boolean(friendship?.pins?.length),
+        lastMessage: summary,
+        unreadCount: member.unreadCount ?? 0,
+        // Only reported while it is newer than the last message.
+        ...(includeReactions && {
+          lastReaction: reaction && reaction.createdAt > lastMessage.createdAt ? reaction : null,
+        }),
+        updatedAt: friendship?.updatedAt,
+      };
+    });
 
     sendSuccess(res, 'Chats retrieved successfully', {
-      chats: paginatedChats,
+      chats,
       total: totalCount,
       hasMore: Number(skip) + Number(limit) < totalCount,
     });
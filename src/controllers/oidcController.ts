@@ -0,0 +1,265 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { User, IUser } from '../models/User';
+import { OAuthState } from '../models/OAuthState';
+import { getOidcProvider, getOidcProviders } from '../config/oidc';
+import {
+  OidcError,
+  IdTokenClaims,
+  createPkcePair,
+  buildAuthorizationUrl,
+  exchangeCodeForClaims,
+} from '../utils/oidc';
+import { generateRandomToken } from '../utils/tokens';
+import { completeLogin } from '../utils/authResponse';
+import { sendSuccess, sendError } from '../utils/response';
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+const handleOidcError = (res: Response, error: unknown, fallbackMessage: string): void => {
+  if (error instanceof OidcError) {
+    sendError(res, fallbackMessage, error.message, error.statusCode);
+    return;
+  }
+  sendError(res, fallbackMessage, error instanceof Error ? error.message : 'Unknown error', 500);
+};
+
+const createAuthorizationRequest = async (
+  providerId: string,
+  purpose: 'login' | 'link',
+  userId?: string
+): Promise<{ authorizationUrl: string; state: string } | null> => {
+  const provider = getOidcProvider(providerId);
+  if (!provider) return null;
+
+  const state = generateRandomToken();
+  const nonce = generateRandomToken(16);
+  const { codeVerifier, codeChallenge } = createPkcePair();
+
+  const authorizationUrl = await buildAuthorizationUrl(provider, { state, nonce, codeChallenge });
+
+  await OAuthState.create({
+    state,
+    provider: provider.id,
+    purpose,
+    user: userId,
+    codeVerifier,
+    nonce,
+    expiresAt: new Date(Date.now() + STATE_TTL_MS),
+  });
+
+  return { authorizationUrl, state };
+};
+
+const isEmailVerified = (claims: IdTokenClaims): boolean => {
+  return claims.email_verified === true || claims.email_verified === 'true';
+};
+
+const generateUsername = async (claims: IdTokenClaims): Promise<string> => {
+  const source = claims.preferred_username || claims.email?.split('@')[0] || claims.name || 'user';
+  let base = source.replace(/[^a-zA-Z0-9_]/g, '').slice(0, 24);
+  if (base.length < 3) base = `user${base}`;
+
+  let candidate = base;
+  for (let attempt = 0; attempt < 5; attempt++) {
+    if (!(await User.exists({ username: candidate }))) return candidate;
+    candidate = `${base}${Math.floor(1000 + Math.random() * 9000)}`;
+  }
+
+  return `${base.slice(0, 17)}_${generateRandomToken(3)}`;
+};
+
+/**
+ * Finds the account for an external identity: first by the linked identity,
+ * then by email (linking it, only if the account verified that address),
+ * otherwise a new account is created.
+ */
+const findOrCreateOidcUser = async (providerId: string, claims: IdTokenClaims): Promise<IUser> => {
+  const linked = await User.findOne({
+    identities: { $elemMatch: { provider: providerId, subject: claims.sub } },
+  });
+  if (linked) return linked;
+
+  if (!claims.email || !isEmailVerified(claims)) {
+    throw new OidcError('The identity provider did not supply a verified email address');
+  }
+
+  const email = claims.email.toLowerCase();
+  const identity = { provider: providerId, subject: claims.sub, email, linkedAt: new Date() };
+
+  const existing = await User.findOne({ email });
+  if (existing) {
+    // Whoever signed up with an unverified address may not own it; linking
+    // would hand them the real owner's SSO logins.
+    if (!existing.emailVerified) {
+      throw new OidcError(
+        'An account with this email exists but its address is not verified. Sign in with your password and link the provider from your account instead',
+        409
+      );
+    }
+    existing.identities.push(identity);
+    await existing.save();
+    return existing;
+  }
+
+  return User.create({
+    username: await generateUsername(claims),
+    email,
+    avatar: claims.picture || '',
+    emailVerified: true,
+    identities: [identity],
+  });
+};
+
+export const getProviders = async (_req: Request, res: Response): Promise<void> => {
+  sendSuccess(res, 'Identity providers retrieved successfully', {
+    providers: getOidcProviders().map(({ id, name }) => ({ id, name })),
+  });
+};
+
+export const startOidcLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const request = await createAuthorizationRequest(req.params.provider, 'login');
+    if (!request) {
+      sendError(res, 'Provider not found', 'This identity provider is not configured', 404);
+      return;
+    }
+
+    sendSuccess(res, 'Authorization URL created', request);
+  } catch (error) {
+    console.error('OIDC authorize error:', error);
+    handleOidcError(res, error, 'Failed to start sign-in');
+  }
+};
+
+export const startOidcLink = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const request = await createAuthorizationRequest(req.params.provider, 'link', req.userId);
+    if (!request) {
+      sendError(res, 'Provider not found', 'This identity provider is not configured', 404);
+      return;
+    }
+
+    sendSuccess(res, 'Authorization URL created', request);
+  } catch (error) {
+    console.error('OIDC link error:', error);
+    handleOidcError(res, error, 'Failed to start linking');
+  }
+};
+
+export const oidcCallback = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      sendError(res, 'Validation failed', errors.array()[0].msg, 400);
+      return;
+    }
+
+    const provider = getOidcProvider(req.params.provider);
+    if (!provider) {
+      sendError(res, 'Provider not found', 'This identity provider is not configured', 404);
+      return;
+    }
+
+    const { code, state } = req.body;
+
+    // Deleting on read makes every state single use.
+    const pending = await OAuthState.findOneAndDelete({
+      state,
+      provider: provider.id,
+      expiresAt: { $gt: new Date() },
+    });
+    if (!pending) {
+      sendError(res, 'Invalid state', 'Sign-in request expired or was already used', 400);
+      return;
+    }
+
+    const claims = await exchangeCodeForClaims(provider, {
+      code,
+      codeVerifier: pending.codeVerifier,
+      nonce: pending.nonce,
+    });
+
+    if (pending.purpose === 'link') {
+      const user = await User.findById(pending.user);
+      if (!user) {
+        sendError(res, 'User not found', 'User profile not found', 404);
+        return;
+      }
+
+      const owner = await User.findOne({
+        identities: { $elemMatch: { provider: provider.id, subject: claims.sub } },
+      });
+      if (owner && owner._id.toString() !== user._id.toString()) {
+        sendError(res, 'Identity already linked', 'This account is linked to another user', 409);
+        return;
+      }
+
+      if (!owner) {
+        user.identities = user.identities.filter((identity) => identity.provider !== provider.id);
+        user.identities.push({
+          provider: provider.id,
+          subject: claims.sub,
+          email: claims.email?.toLowerCase(),
+          linkedAt: new Date(),
+        });
+        await user.save();
+      }
+
+      sendSuccess(res, 'Identity provider linked', {
+        identities: user.identities.map(({ provider, email, linkedAt }) => ({
+          provider,
+          email,
+          linkedAt,
+        })),
+      });
+      return;
+    }
+
+    const user = await findOrCreateOidcUser(provider.id, claims);
+    const { message, data } = await completeLogin(user, req);
+
+    sendSuccess(res, message, data);
+  } catch (error) {
+    console.error('OIDC callback error:', error);
+    handleOidcError(res, error, 'Sign-in failed');
+  }
+};
+
+export const unlinkProvider = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.userId).select('+password');
+    if (!user) {
+      sendError(res, 'User not found', 'User profile not found', 404);
+      return;
+    }
+
+    const providerId = req.params.provider.toLowerCase();
+    const remaining = user.identities.filter((identity) => identity.provider !== providerId);
+
+    if (remaining.length === user.identities.length) {
+      sendError(res, 'Provider not linked', 'This identity provider is not linked to your account', 404);
+      return;
+    }
+
+    if (!user.password && remaining.length === 0) {
+      sendError(
+        res,
+        'Cannot unlink provider',
+        'Set a password or link another provider first so you can still sign in',
+        400
+      );
+      return;
+    }
+
+    user.identities = remaining;
+    await user.save();
+
+    sendSuccess(res, 'Identity provider unlinked', {
+      identities: remaining.map(({ provider, email, linkedAt }) => ({ provider, email, linkedAt })),
+    });
+  } catch (error) {
+    console.error('OIDC unlink error:', error);
+    sendError(res, 'Failed to unlink provider', error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+};
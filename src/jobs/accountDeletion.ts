@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import { User, IUser } from '../models/User';
+import { Session } from '../models/Session';
+import { SecurityEvent } from '../models/SecurityEvent';
+import { OAuthState } from '../models/OAuthState';
+import { Friendship } from '../models/Friendship';
+import { getMemberConversationIds } from '../utils/conversationHelper';
+import { leaveGroup, emitConversationUpdate } from '../utils/groupConversations';
+import { deliverMessage } from '../utils/messageHelper';
+
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Strips everything that identifies the person behind an account. The user
+ * document itself stays so that messages keep a valid `sender`, which the
+ * User JSON transform then renders as "Deleted user". Accepted friendships
+ * are kept so the other party can still open the conversation history.
+ * Groups are left, which hands any the user owned to another member.
+ */
+export const anonymizeUser = async (user: IUser): Promise<void> => {
+  const id = user._id.toString();
+
+  user.username = `del_${id}`;
+  user.email = `deleted-${id}@deleted.invalid`;
+  user.password = crypto.randomBytes(32).toString('hex');
+  user.avatar = '';
+  user.status = 'offline';
+  user.emailVerified = false;
+  user.pendingEmail = undefined;
+  user.emailChangeToken = undefined;
+  user.emailChangeExpires = undefined;
+  user.mfaEnabled = false;
+  user.mfaSecret = undefined;
+  user.mfaPendingSecret = undefined;
+  user.mfaRecoveryCodes = undefined;
+  user.identities = [];
+  user.tokenVersion = (user.tokenVersion ?? 0) + 1;
+  user.deletionRequestedAt = undefined;
+  user.deletionScheduledFor = undefined;
+  user.deletedAt = new Date();
+  await user.save();
+
+  await Promise.all([
+    Session.deleteMany({ user: user._id }),
+    SecurityEvent.deleteMany({ user: user._id }),
+    OAuthState.deleteMany({ user: user._id }),
+    Friendship.deleteMany({
+      $or: [{ requester: user._id }, { recipient: user._id }],
+      status: { $ne: 'accepted' },
+    }),
+  ]);
+
+  for (const conversationId of await getMemberConversationIds(id)) {
+    const { conversation, message } = await leaveGroup(id, conversationId.toString());
+    await emitConversationUpdate(conversationId.toString(), conversation);
+    if (message) {
+      await deliverMessage(message);
+    }
+  }
+};
+
+export const purgeDueAccounts = async (): Promise<number> => {
+  const dueUsers = await User.find({
+    deletionScheduledFor: { $lte: new Date() },
+    deletedAt: { $exists: false },
+  });
+
+  for (const user of dueUsers) {
+    try {
+      await anonymizeUser(user);
+      console.log(`🗑️  Account ${user._id} anonymized`);
+    } catch (error) {
+      console.error(`Account deletion failed for ${user._id}:`, error);
+    }
+  }
+
+  return dueUsers.length;
+};
+
+export const startAccountDeletionJob = (): NodeJS.Timeout => {
+  const run = () => {
+    purgeDueAccounts().catch((error) => console.error('Account deletion sweep error:', error));
+  };
+
+  run();
+  return setInterval(run, SWEEP_INTERVAL_MS);
+};
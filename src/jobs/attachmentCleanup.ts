@@ -0,0 +1,43 @@
+import { Attachment } from '../models/Attachment';
+import { ScheduledMessage } from '../models/ScheduledMessage';
+import { attachmentConfig } from '../config/attachments';
+import { deleteAttachment } from '../utils/attachments';
+import { UNSENT_STATUSES } from '../utils/scheduledMessageHelper';
+
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Removes uploads that were never sent within the orphan TTL. Uploads
+ * waiting in a scheduled message are kept.
+ */
+export const purgeOrphanedAttachments = async (): Promise<number> => {
+  const cutoff = new Date(Date.now() - attachmentConfig.orphanTtlHours * 60 * 60 * 1000);
+  const reserved = await ScheduledMessage.distinct('attachment', {
+    status: { $in: UNSENT_STATUSES },
+    attachment: { $exists: true },
+  });
+  const orphans = await Attachment.find({
+    _id: { $nin: reserved },
+    message: { $exists: false },
+    createdAt: { $lte: cutoff },
+  });
+
+  for (const attachment of orphans) {
+    try {
+      await deleteAttachment(attachment);
+    } catch (error) {
+      console.error(`Attachment cleanup failed for ${attachment._id}:`, error);
+    }
+  }
+
+  return orphans.length;
+};
+
+export const startAttachmentCleanupJob = (): NodeJS.Timeout => {
+  const run = () => {
+    purgeOrphanedAttachments().catch((error) => console.error('Attachment cleanup sweep error:', error));
+  };
+
+  run();
+  return setInterval(run, SWEEP_INTERVAL_MS);
+};
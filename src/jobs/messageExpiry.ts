@@ -0,0 +1,102 @@
+import { Message } from '../models/Message';
+import { Attachment } from '../models/Attachment';
+import { Friendship } from '../models/Friendship';
+import { deleteAttachment } from '../utils/attachments';
+import { directPairKey, rebuildDirectConversation } from '../utils/conversationHelper';
+import { emitToUser } from '../socket/emitter';
+
+const SWEEP_INTERVAL_MS = 30 * 1000;
+const BATCH_SIZE = 500;
+
+/**
+ * Deletes messages past their `expiresAt`, with their attachments and pins,
+ * rebuilds the affected chat list summaries and sends each participant a
+ * `messages_expired` event per conversation.
+ */
+export const purgeExpiredMessages = async (): Promise<number> => {
+  let purged = 0;
+
+  for (;;) {
+    const expired = await Message.find({ expiresAt: { $lte: new Date() } })
+      .select('sender receiver attachment')
+      .limit(BATCH_SIZE);
+    if (!expired.length) {
+      break;
+    }
+
+    const expiredIds = expired.map((message) => message._id);
+    await Message.deleteMany({ _id: { $in: expiredIds } });
+    await Friendship.updateMany(
+      { 'pins.message': { $in: expiredIds } },
+      { $pull: { pins: { message: { $in: expiredIds } } } }
+    );
+
+    const attachmentIds = expired
+      .map((message) => message.attachment)
+      .filter((id) => Boolean(id));
+    const attachments = attachmentIds.length
+      ? await Attachment.find({ _id: { $in: attachmentIds } })
+      : [];
+    for (const attachment of attachments) {
+      try {
+        await deleteAttachment(attachment);
+      } catch (error) {
+        console.error(`Attachment cleanup failed for ${attachment._id}:`, error);
+      }
+    }
+
+    // Per user, the expired message IDs grouped by the other participant.
+    const byUser = new Map<string, Map<string, string[]>>();
+    const add = (userId: string, friendId: string, messageId: string) => {
+      const conversations = byUser.get(userId) ?? new Map<string, string[]>();
+      conversations.set(friendId, [...(conversations.get(friendId) ?? []), messageId]);
+      byUser.set(userId, conversations);
+    };
+    // The chats whose last message or unread messages may be gone.
+    const pairs = new Map<string, [string, string]>();
+    // Group messages never expire, so every message here should be a direct one.
+    expired.forEach((message) => {
+      if (!message.receiver) {
+        return;
+      }
+      const senderId = message.sender.toString();
+      const receiverId = message.receiver.toString();
+      add(senderId, receiverId, message._id.toString());
+      add(receiverId, senderId, message._id.toString());
+      pairs.set(directPairKey(senderId, receiverId), [senderId, receiverId]);
+    });
+    for (const [userId, friendId] of pairs.values()) {
+      await rebuildDirectConversation(userId, friendId);
+    }
+    byUser.forEach((conversations, userId) => {
+      conversations.forEach((messageIds, friendId) => {
+        emitToUser(userId, 'messages_expired', { friendId, messageIds });
+      });
+    });
+
+    purged += expired.length;
+    if (expired.length < BATCH_SIZE) {
+      break;
+    }
+  }
+
+  return purged;
+};
+
+export const startMessageExpiryJob = (): NodeJS.Timeout => {
+  let running = false;
+  const run = () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    purgeExpiredMessages()
+      .catch((error) => console.error('Message expiry sweep error:', error))
+      .finally(() => {
+        running = false;
+      });
+  };
+
+  run();
+  return setInterval(run, SWEEP_INTERVAL_MS);
+};
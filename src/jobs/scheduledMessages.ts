@@ -0,0 +1,120 @@
+import mongoose from 'mongoose';
+import { ScheduledMessage, IScheduledMessage } from '../models/ScheduledMessage';
+import { Message } from '../models/Message';
+import { PUBLIC_USER_FIELDS } from '../models/User';
+import { MessageError, createMessage, deliverMessage } from '../utils/messageHelper';
+import { emitToUser } from '../socket/emitter';
+
+const POLL_INTERVAL_MS = 15 * 1000;
+// A send still marked as processing after this long was interrupted (for
+// example by a restart) and is picked up again.
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+const claimNextDue = (): Promise<IScheduledMessage | null> => {
+  const now = new Date();
+  return ScheduledMessage.findOneAndUpdate(
+    {
+      sendAt: { $lte: now },
+      $or: [
+        { status: 'pending' },
+        { status: 'processing', processingStartedAt: { $lte: new Date(now.getTime() - STALE_PROCESSING_MS) } },
+      ],
+    },
+    [
+      {
+        $set: {
+          status: 'processing',
+          processingStartedAt: now,
+          message: { $ifNull: ['$message', new mongoose.Types.ObjectId()] },
+        },
+      },
+    ],
+    { new: true, sort: { sendAt: 1 } }
+  );
+};
+
+/**
+ * Sends one claimed message through the normal send path. A retry after an
+ * interruption reuses the message created by the earlier attempt.
+ */
+const sendScheduledMessage = async (scheduled: IScheduledMessage): Promise<void> => {
+  const senderId = scheduled.sender.toString();
+  const messageId = scheduled.message as mongoose.Types.ObjectId;
+
+  try {
+    const message =
+      (await Message.findById(messageId).populate('sender receiver', PUBLIC_USER_FIELDS)) ??
+      (await createMessage(
+        {
+          senderId,
+          receiverId: scheduled.receiver.toString(),
+          content: scheduled.content,
+          messageType: scheduled.messageType,
+          replyTo: scheduled.replyTo?.toString(),
+          attachmentId: scheduled.attachment?.toString(),
+        },
+        messageId
+      ));
+
+    const payload = await deliverMessage(message);
+
+    await ScheduledMessage.updateOne({ _id: scheduled._id }, { $set: { status: 'sent' } });
+    emitToUser(senderId, 'scheduled_message_sent', {
+      scheduledMessageId: scheduled._id,
+      message: payload,
+    });
+  } catch (error) {
+    if (!(error instanceof MessageError)) {
+      // Left as processing, so it is retried once the claim goes stale.
+      throw error;
+    }
+
+    await ScheduledMessage.updateOne(
+      { _id: scheduled._id },
+      { $set: { status: 'failed', failureReason: error.message }, $unset: { message: 1 } }
+    );
+    emitToUser(senderId, 'scheduled_message_failed', {
+      scheduledMessageId: scheduled._id,
+      error: error.message,
+    });
+  }
+};
+
+export const sendDueScheduledMessages = async (): Promise<number> => {
+  let processed = 0;
+  let scheduled = await claimNextDue();
+
+  while (scheduled) {
+    try {
+      await sendScheduledMessage(scheduled);
+      processed += 1;
+    } catch (error) {
+      console.error(`Scheduled message ${scheduled._id} failed:`, error);
+    }
+    scheduled = await claimNextDue();
+  }
+
+  return processed;
+};
+
+/**
+ * Polls for due messages. Schedules live in the database, so messages that
+ * fell due while the server was down are sent on the first run.
+ */
+export const startScheduledMessageJob = (): NodeJS.Timeout => {
+  let running = false;
+  const run = () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    sendDueScheduledMessages()
+      .catch((error) => console.error('Scheduled message sweep error:', error))
+      .finally(() => {
+        running = false;
+      });
+  };
+
+  run();
+  return setInterval(run, POLL_INTERVAL_MS);
+};
@@ -2,8 +2,14 @@ import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken } from '../utils/jwt';
 import { sendError } from '../utils/response';
 import { User } from '../models/User';
+import { authConfig } from '../config/auth';
+import { assertAccessTokenActive } from '../utils/accessTokens';
 
-export const authenticate = async (
+interface AuthenticateOptions {
+  allowUnverified?: boolean;
+}
+
+const createAuthenticate = (options: AuthenticateOptions = {}) => async (
   req: Request,
   res: Response,
   next: NextFunction
@@ -27,8 +33,18 @@ export const authenticate = async (
       return;
     }
 
+    await assertAccessTokenActive(decoded, user);
+
+    if (!options.allowUnverified && authConfig.requireEmailVerification && !user.emailVerified) {
+      sendError(res, 'Email not verified', 'Please verify your email address to continue', 403);
+      return;
+    }
+
     req.user = user;
     req.userId = user._id.toString();
+    req.sessionId = decoded.sessionId;
+    req.tokenJti = decoded.jti;
+    req.tokenExpiresAt = decoded.exp ? new Date(decoded.exp * 1000) : undefined;
 
     next();
   } catch (error) {
@@ -45,3 +61,11 @@ export const authenticate = async (
     sendError(res, 'Authentication failed', 'Server error', 500);
   }
 };
+
+export const authenticate = createAuthenticate();
+
+/**
+ * Same as `authenticate`, but lets accounts with an unverified email through
+ * so they can still read their profile or log out.
+ */
+export const authenticateAllowUnverified = createAuthenticate({ allowUnverified: true });
@@ -0,0 +1,167 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { RateLimitCounter } from '../models/RateLimitCounter';
+import { rateLimitConfig } from '../config/rateLimit';
+import { sendError } from '../utils/response';
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Fixed-window counters. `increment` must be atomic so that several
+ * instances sharing one store cannot undercount.
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const counters = new Map<string, RateLimitHit>();
+
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    counters.forEach((hit, key) => {
+      if (hit.resetAt.getTime() <= now) counters.delete(key);
+    });
+  }, 60 * 1000);
+  cleanup.unref();
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      const current = counters.get(key);
+
+      if (!current || current.resetAt.getTime() <= now) {
+        const hit = { count: 1, resetAt: new Date(now + windowMs) };
+        counters.set(key, hit);
+        return hit;
+      }
+
+      current.count += 1;
+      return current;
+    },
+    async reset(key) {
+      counters.delete(key);
+    },
+  };
+};
+
+export const createMongoRateLimitStore = (): RateLimitStore => ({
+  async increment(key, windowMs) {
+    const now = new Date();
+    const active = { $gt: ['$resetAt', now] };
+
+    const counter = await RateLimitCounter.findOneAndUpdate(
+      { key },
+      [
+        {
+          $set: {
+            count: { $cond: [active, { $add: ['$count', 1] }, 1] },
+            resetAt: { $cond: [active, '$resetAt', new Date(now.getTime() + windowMs)] },
+          },
+        },
+      ],
+      { upsert: true, new: true }
+    );
+
+    return { count: counter.count, resetAt: counter.resetAt };
+  },
+  async reset(key) {
+    await RateLimitCounter.deleteOne({ key });
+  },
+});
+
+let store: RateLimitStore | null = null;
+
+export const setRateLimitStore = (customStore: RateLimitStore): void => {
+  store = customStore;
+};
+
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    store =
+      rateLimitConfig.store === 'mongo' ? createMongoRateLimitStore() : createMemoryRateLimitStore();
+  }
+  return store;
+};
+
+interface RateLimiterOptions {
+  name: string;
+  limits: () => { max: number; windowMs: number };
+  /** Return `undefined` to skip limiting for this request. */
+  key: (req: Request) => string | undefined;
+}
+
+export const createRateLimiter = ({ name, limits, key }: RateLimiterOptions): RequestHandler => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const identifier = key(req);
+    if (!identifier) {
+      next();
+      return;
+    }
+
+    try {
+      const { max, windowMs } = limits();
+      const { count, resetAt } = await getRateLimitStore().increment(
+        `${name}:${identifier}`,
+        windowMs
+      );
+      const retryAfterSeconds = Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+
+      res.setHeader('X-RateLimit-Limit', max);
+      res.setHeader('X-RateLimit-Remaining', Math.max(0, max - count));
+      res.setHeader('X-RateLimit-Reset', Math.ceil(resetAt.getTime() / 1000));
+
+      if (count > max) {
+        res.setHeader('Retry-After', retryAfterSeconds);
+        sendError(res, 'Too many requests', `Please try again in ${retryAfterSeconds} seconds`, 429);
+        return;
+      }
+
+      next();
+    } catch (error) {
+      // A broken limiter store should not take authentication down with it.
+      console.error(`Rate limiter (${name}) error:`, error);
+      next();
+    }
+  };
+};
+
+const byIp = (req: Request): string | undefined => req.ip;
+
+const byEmail = (req: Request): string | undefined => {
+  const email = req.body?.email;
+  return typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : undefined;
+};
+
+export const loginIpLimiter = createRateLimiter({
+  name: 'login-ip',
+  limits: () => rateLimitConfig.loginPerIp,
+  key: byIp,
+});
+
+export const loginAccountLimiter = createRateLimiter({
+  name: 'login-account',
+  limits: () => rateLimitConfig.loginPerAccount,
+  key: byEmail,
+});
+
+export const signupIpLimiter = createRateLimiter({
+  name: 'signup-ip',
+  limits: () => rateLimitConfig.signupPerIp,
+  key: byIp,
+});
+
+export const sensitiveIpLimiter = createRateLimiter({
+  name: 'sensitive-ip',
+  limits: () => rateLimitConfig.sensitivePerIp,
+  key: byIp,
+});
+
+export const sensitiveAccountLimiter = createRateLimiter({
+  name: 'sensitive-account',
+  limits: () => rateLimitConfig.sensitivePerAccount,
+  key: byEmail,
+});
@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { attachmentConfig } from '../config/attachments';
+import { sendError } from '../utils/response';
+
+/**
+ * Buffers a single multipart file field in memory, enforcing the configured
+ * size limit. Files are only written to storage after their type has been
+ * checked.
+ */
+export const uploadSingleFile = (fieldName: string) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const maxFileSizeBytes = attachmentConfig.maxFileSizeBytes;
+    const upload = multer({
+      storage: multer.memoryStorage(),
+      limits: { fileSize: maxFileSizeBytes, files: 1 },
+      defParamCharset: 'utf8',
+    }).single(fieldName);
+
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        if (error.code === 'LIMIT_FILE_SIZE') {
+          sendError(
+            res,
+            'File too large',
+            `Files can be at most ${Math.floor(maxFileSizeBytes / (1024 * 1024))} MB`,
+            413
+          );
+          return;
+        }
+        sendError(res, 'Upload failed', error.message, 400);
+        return;
+      }
+      if (error) {
+        next(error);
+        return;
+      }
+      next();
+    });
+  };
+};
@@ -0,0 +1,49 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import { connectDatabase } from '../config/database';
+import { Friendship } from '../models/Friendship';
+import { Conversation } from '../models/Conversation';
+import { ensureDirectConversation, rebuildConversation } from '../utils/conversationHelper';
+
+dotenv.config();
+
+/**
+ * Builds the chat list summaries from the existing messages: a direct
+ * conversation for every accepted friendship, then the last message and
+ * unread counters of every conversation. Groups created before direct
+ * conversations existed get their `type` first. Safe to run again.
+ *
+ * Run once after deploying, with `npm run build && npm run migrate:conversations`.
+ */
+const backfillConversations = async (): Promise<void> => {
+  await connectDatabase();
+
+  const upgraded = await Conversation.updateMany({ type: { $exists: false } }, { $set: { type: 'group' } });
+
+  let directCount = 0;
+  await Friendship.find({ status: 'accepted' })
+    .cursor()
+    .eachAsync(async (friendship) => {
+      await rebuildConversation(await ensureDirectConversation(friendship));
+      directCount += 1;
+    });
+
+  let groupCount = 0;
+  await Conversation.find({ type: 'group' })
+    .cursor()
+    .eachAsync(async (conversation) => {
+      await rebuildConversation(conversation);
+      groupCount += 1;
+    });
+
+  console.log(
+    `✅ Rebuilt ${directCount} direct chats and ${groupCount} groups (${upgraded.modifiedCount} groups upgraded)`
+  );
+};
+
+backfillConversations()
+  .catch((error) => {
+    console.error('❌ Conversation backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,38 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import { connectDatabase } from '../config/database';
+import { Message } from '../models/Message';
+
+dotenv.config();
+
+/** Replaced by `{ sender, receiver, createdAt, _id }`, which covers the same queries. */
+const LEGACY_INDEX = 'sender_1_receiver_1_createdAt_-1';
+
+/**
+ * Drops the chat history index from before cursor pagination. Mongoose
+ * builds the new index but never removes old ones, so upgraded databases
+ * would otherwise maintain both. Safe to run again.
+ *
+ * Run once after deploying, with `npm run build && npm run migrate:message-indexes`.
+ */
+const dropLegacyMessageIndex = async (): Promise<void> => {
+  await connectDatabase();
+
+  const indexes = await Message.collection.indexes();
+  if (!indexes.some((index) => index.name === LEGACY_INDEX)) {
+    console.log(`✅ Index ${LEGACY_INDEX} already gone`);
+    return;
+  }
+
+  // Build the replacement first so that chat history is never unindexed.
+  await Message.createIndexes();
+  await Message.collection.dropIndex(LEGACY_INDEX);
+  console.log(`✅ Dropped index ${LEGACY_INDEX}`);
+};
+
+dropLegacyMessageIndex()
+  .catch((error) => {
+    console.error('❌ Message index migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IAttachment extends Document {
+  uploader: mongoose.Types.ObjectId;
+  message?: mongoose.Types.ObjectId;
+  storageDriver: string;
+  storageKey: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  width?: number;
+  height?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const attachmentSchema = new Schema<IAttachment>(
+  {
+    uploader: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Uploader is required'],
+    },
+    // Set once the upload is sent; unattached uploads are cleaned up.
+    message: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+    },
+    storageDriver: {
+      type: String,
+      required: [true, 'Storage driver is required'],
+    },
+    storageKey: {
+      type: String,
+      required: [true, 'Storage key is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'File name is required'],
+      trim: true,
+      maxlength: 255,
+    },
+    size: {
+      type: Number,
+      required: [true, 'File size is required'],
+    },
+    // Detected from the file contents, not taken from the upload request.
+    mimeType: {
+      type: String,
+      required: [true, 'MIME type is required'],
+    },
+    width: {
+      type: Number,
+    },
+    height: {
+      type: Number,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+attachmentSchema.index({ message: 1, createdAt: 1 });
+attachmentSchema.index({ storageKey: 1 });
+
+export const Attachment = mongoose.model<IAttachment>('Attachment', attachmentSchema);
@@ -0,0 +1,140 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import type { IMessage } from './Message';
+
+export type ConversationRole = 'owner' | 'admin' | 'member';
+
+export type ConversationType = 'direct' | 'group';
+
+/** Copy of a message kept on its conversation for the chat list. */
+export interface IConversationLastMessage {
+  message: mongoose.Types.ObjectId;
+  sender: mongoose.Types.ObjectId;
+  content: string;
+  messageType: IMessage['messageType'];
+  /** Direct messages only. */
+  status?: IMessage['status'];
+  deletedAt?: Date;
+  createdAt: Date;
+}
+
+export interface IConversationMember {
+  user: mongoose.Types.ObjectId;
+  role: ConversationRole;
+  joinedAt: Date;
+  /** `createdAt` of the newest message pushed to one of the member's devices. */
+  lastDeliveredAt?: Date;
+  /** `createdAt` of the newest message the member has read. */
+  lastReadAt?: Date;
+  /** Messages from others the member has not read yet. */
+  unreadCount: number;
+  /**
+   * Set while the member deleted `lastMessage` for themselves: their newest
+   * visible message instead, or null if they see none. Cleared by the next
+   * message.
+   */
+  lastMessageOverride?: { lastMessage: IConversationLastMessage | null } | null;
+}
+
+/**
+ * A chat, with the summary the chat list shows. Group chats hold their
+ * members and roles. Direct chats mirror an accepted `Friendship`, which
+ * keeps their settings; `pairKey` identifies them.
+ */
+export interface IConversation extends Document {
+  type: ConversationType;
+  /** Groups only. */
+  name?: string;
+  createdBy?: mongoose.Types.ObjectId;
+  /** Direct chats only: the two user IDs, sorted and joined with `:`. */
+  pairKey?: string;
+  friendship?: mongoose.Types.ObjectId;
+  members: IConversationMember[];
+  lastMessage?: IConversationLastMessage;
+  lastMessageAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const lastMessageSchema = new Schema<IConversationLastMessage>(
+  {
+    message: { type: Schema.Types.ObjectId, ref: 'Message', required: true },
+    sender: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    content: { type: String, default: '' },
+    messageType: { type: String, required: true },
+    status: String,
+    deletedAt: Date,
+    createdAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const conversationSchema = new Schema<IConversation>(
+  {
+    type: {
+      type: String,
+      enum: ['direct', 'group'],
+      default: 'group',
+    },
+    name: {
+      type: String,
+      required: [
+        function (this: IConversation) {
+          return this.type === 'group';
+        },
+        'Group name is required',
+      ],
+      trim: true,
+      maxlength: [100, 'Group name cannot exceed 100 characters'],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [
+        function (this: IConversation) {
+          return this.type === 'group';
+        },
+        'Creator is required',
+      ],
+    },
+    pairKey: String,
+    friendship: {
+      type: Schema.Types.ObjectId,
+      ref: 'Friendship',
+    },
+    // Current members only; a member who leaves or is removed loses access
+    // to the whole history. A group always has exactly one owner.
+    members: {
+      type: [
+        {
+          _id: false,
+          user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+          role: { type: String, enum: ['owner', 'admin', 'member'], default: 'member' },
+          joinedAt: { type: Date, default: Date.now },
+          // Per-member receipts are watermarks rather than flags on each
+          // message: every message up to the date counts as delivered or read.
+          lastDeliveredAt: Date,
+          lastReadAt: Date,
+          unreadCount: { type: Number, default: 0 },
+          lastMessageOverride: new Schema(
+            { lastMessage: { type: lastMessageSchema, default: null } },
+            { _id: false }
+          ),
+        },
+      ],
+      default: [],
+    },
+    // Denormalized from the messages so the chat list is a single indexed
+    // query; kept up to date by the helpers in `conversationHelper`.
+    lastMessage: lastMessageSchema,
+    lastMessageAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// The chat list: a user's conversations, most recent activity first.
+conversationSchema.index({ 'members.user': 1, lastMessageAt: -1 });
+conversationSchema.index({ pairKey: 1 }, { unique: true, sparse: true });
+
+export const Conversation = mongoose.model<IConversation>('Conversation', conversationSchema);
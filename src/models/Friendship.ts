@@ -1,9 +1,27 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+/** Lifetime of new messages in a conversation, by disappearing-messages setting. */
+export const DISAPPEARING_TIMERS = {
+  off: 0,
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+export type DisappearingTimer = keyof typeof DISAPPEARING_TIMERS;
+
+export interface IPinnedMessage {
+  message: mongoose.Types.ObjectId;
+  pinnedBy: mongoose.Types.ObjectId;
+  pinnedAt: Date;
+}
+
 export interface IFriendship extends Document {
   requester: mongoose.Types.ObjectId;
   recipient: mongoose.Types.ObjectId;
   status: 'pending' | 'accepted' | 'rejected' | 'blocked';
+  disappearingTimer: DisappearingTimer;
+  pins: IPinnedMessage[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -25,6 +43,24 @@ const friendshipSchema = new Schema<IFriendship>(
       enum: ['pending', 'accepted', 'rejected', 'blocked'],
       default: 'pending',
     },
+    // Applies to messages sent after it is set; either friend can change it.
+    disappearingTimer: {
+      type: String,
+      enum: Object.keys(DISAPPEARING_TIMERS),
+      default: 'off',
+    },
+    // Messages pinned to the top of the conversation, oldest pin first.
+    pins: {
+      type: [
+        {
+          _id: false,
+          message: { type: Schema.Types.ObjectId, ref: 'Message', required: true },
+          pinnedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+          pinnedAt: { type: Date, default: Date.now },
+        },
+      ],
+      default: [],
+    },
   },
   {
     timestamps: true,
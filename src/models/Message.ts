@@ -1,15 +1,114 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { DisappearingTimer } from './Friendship';
+
+/** Content shown in place of a message deleted for everyone. */
+export const DELETED_MESSAGE_CONTENT = 'This message was deleted';
+
+export interface IMessageRevision {
+  content: string;
+  /** When this revision was written: the send time or an earlier edit. */
+  createdAt: Date;
+}
+
+export interface IMessageReaction {
+  emoji: string;
+  user: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+/** Where a forwarded message originally came from. */
+export interface IMessageForward {
+  sender: mongoose.Types.ObjectId;
+  sentAt: Date;
+}
+
+export type MessageSystemEventType =
+  | 'disappearing_timer'
+  | 'group_created'
+  | 'group_renamed'
+  | 'members_added'
+  | 'member_removed'
+  | 'member_left';
+
+/** What a `system` message announces. */
+export interface IMessageSystemEvent {
+  type: MessageSystemEventType;
+  /** `disappearing_timer` only. */
+  timer?: DisappearingTimer;
+  /** The new group name, for `group_created` and `group_renamed`. */
+  name?: string;
+  /** Members added or removed. */
+  users?: mongoose.Types.ObjectId[];
+}
+
+export interface IMessageLinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  image?: string;
+  siteName?: string;
+}
 
 export interface IMessage extends Document {
   sender: mongoose.Types.ObjectId;
-  receiver: mongoose.Types.ObjectId;
+  /** Direct messages only. */
+  receiver?: mongoose.Types.ObjectId;
+  /** Group messages only. */
+  conversation?: mongoose.Types.ObjectId;
   content: string;
-  messageType: 'text' | 'image' | 'file';
+  messageType: 'text' | 'image' | 'file' | 'system';
   status: 'sent' | 'delivered' | 'read';
+  editedAt?: Date;
+  editHistory?: IMessageRevision[];
+  replyTo?: mongoose.Types.ObjectId;
+  attachment?: mongoose.Types.ObjectId;
+  forwardedFrom?: IMessageForward;
+  systemEvent?: IMessageSystemEvent;
+  linkPreview?: IMessageLinkPreview;
+  expiresAt?: Date;
+  reactions: IMessageReaction[];
+  deletedFor: mongoose.Types.ObjectId[];
+  deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const forwardSchema = new Schema<IMessageForward>(
+  {
+    sender: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    sentAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const systemEventSchema = new Schema<IMessageSystemEvent>(
+  {
+    type: {
+      type: String,
+      enum: ['disappearing_timer', 'group_created', 'group_renamed', 'members_added', 'member_removed', 'member_left'],
+      required: true,
+    },
+    timer: String,
+    name: String,
+    users: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+      default: undefined,
+    },
+  },
+  { _id: false }
+);
+
+const linkPreviewSchema = new Schema<IMessageLinkPreview>(
+  {
+    url: { type: String, required: true },
+    title: String,
+    description: String,
+    image: String,
+    siteName: String,
+  },
+  { _id: false }
+);
+
 const messageSchema = new Schema<IMessage>(
   {
     sender: {
@@ -17,10 +116,20 @@ const messageSchema = new Schema<IMessage>(
       ref: 'User',
       required: [true, 'Sender is required'],
     },
+    // A message goes either to one friend or to a group conversation.
     receiver: {
       type: Schema.Types.ObjectId,
       ref: 'User',
-      required: [true, 'Receiver is required'],
+      required: [
+        function (this: IMessage) {
+          return !this.conversation;
+        },
+        'Receiver is required',
+      ],
+    },
+    conversation: {
+      type: Schema.Types.ObjectId,
+      ref: 'Conversation',
     },
     content: {
       type: String,
@@ -29,21 +138,106 @@ const messageSchema = new Schema<IMessage>(
     },
     messageType: {
       type: String,
-      enum: ['text', 'image', 'file'],
+      enum: ['text', 'image', 'file', 'system'],
       default: 'text',
     },
+    // Direct messages only; receipts of group messages are kept per member
+    // on the conversation.
     status: {
       type: String,
       enum: ['sent', 'delivered', 'read'],
       default: 'sent',
     },
+    replyTo: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+    },
+    // Image and file messages; `content` then holds the caption or file name.
+    attachment: {
+      type: Schema.Types.ObjectId,
+      ref: 'Attachment',
+    },
+    // Forwarding a forwarded message keeps the first origin.
+    forwardedFrom: {
+      type: forwardSchema,
+      default: undefined,
+    },
+    // Set on `system` messages, which are created by the server to announce
+    // conversation changes; `content` holds a readable version.
+    systemEvent: {
+      type: systemEventSchema,
+      default: undefined,
+    },
+    // Metadata of the first link in a text message, added after sending.
+    linkPreview: {
+      type: linkPreviewSchema,
+      default: undefined,
+    },
+    // From the conversation's disappearing-messages timer at send time.
+    // Expired messages are removed by the message expiry job.
+    expiresAt: {
+      type: Date,
+    },
+    // One entry per user per emoji.
+    reactions: {
+      type: [
+        {
+          _id: false,
+          emoji: { type: String, required: true },
+          user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+          createdAt: { type: Date, default: Date.now },
+        },
+      ],
+      default: [],
+    },
+    editedAt: {
+      type: Date,
+    },
+    // Previous contents, oldest first. Only loaded for the history endpoint.
+    editHistory: {
+      type: [
+        {
+          _id: false,
+          content: { type: String, required: true },
+          createdAt: { type: Date, required: true },
+        },
+      ],
+      select: false,
+      default: undefined,
+    },
+    // Participants who removed the message from their own view ("delete for me").
+    deletedFor: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+      default: [],
+    },
+    // Set when the sender deleted the message for everyone; the content is
+    // then replaced with DELETED_MESSAGE_CONTENT.
+    deletedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        // Who deleted a message for themselves is private to each participant.
+        Reflect.deleteProperty(ret, 'deletedFor');
+        return ret;
+      },
+    },
   }
 );
 
-messageSchema.index({ sender: 1, receiver: 1, createdAt: -1 });
+// `_id` breaks ties between messages created in the same millisecond so
+// cursor pagination has a total order. It replaces `{ sender, receiver,
+// createdAt }`; `migrate:message-indexes` drops that one from older databases.
+messageSchema.index({ sender: 1, receiver: 1, createdAt: -1, _id: -1 });
+messageSchema.index(
+  { conversation: 1, createdAt: -1, _id: -1 },
+  { partialFilterExpression: { conversation: { $exists: true } } }
+);
 messageSchema.index({ createdAt: -1 });
+messageSchema.index({ content: 'text' });
+messageSchema.index({ expiresAt: 1 }, { sparse: true });
 
 export const Message = mongoose.model<IMessage>('Message', messageSchema);
@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IOAuthState extends Document {
+  state: string;
+  provider: string;
+  purpose: 'login' | 'link';
+  user?: mongoose.Types.ObjectId;
+  codeVerifier: string;
+  nonce: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const oauthStateSchema = new Schema<IOAuthState>(
+  {
+    state: {
+      type: String,
+      required: [true, 'State is required'],
+      unique: true,
+    },
+    provider: {
+      type: String,
+      required: [true, 'Provider is required'],
+    },
+    purpose: {
+      type: String,
+      enum: ['login', 'link'],
+      default: 'login',
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    codeVerifier: {
+      type: String,
+      required: [true, 'Code verifier is required'],
+    },
+    nonce: {
+      type: String,
+      required: [true, 'Nonce is required'],
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+oauthStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OAuthState = mongoose.model<IOAuthState>('OAuthState', oauthStateSchema);
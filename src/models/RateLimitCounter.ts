@@ -0,0 +1,30 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IRateLimitCounter extends Document {
+  key: string;
+  count: number;
+  resetAt: Date;
+}
+
+const rateLimitCounterSchema = new Schema<IRateLimitCounter>({
+  key: {
+    type: String,
+    required: [true, 'Key is required'],
+    unique: true,
+  },
+  count: {
+    type: Number,
+    default: 0,
+  },
+  resetAt: {
+    type: Date,
+    required: [true, 'Reset time is required'],
+  },
+});
+
+rateLimitCounterSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimitCounter = mongoose.model<IRateLimitCounter>(
+  'RateLimitCounter',
+  rateLimitCounterSchema
+);
@@ -0,0 +1,30 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IRevokedToken extends Document {
+  key: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const revokedTokenSchema = new Schema<IRevokedToken>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Revocation key is required'],
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Once the token would have expired anyway there is nothing left to revoke.
+revokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RevokedToken = mongoose.model<IRevokedToken>('RevokedToken', revokedTokenSchema);
@@ -0,0 +1,85 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IScheduledMessage extends Document {
+  sender: mongoose.Types.ObjectId;
+  receiver: mongoose.Types.ObjectId;
+  content: string;
+  messageType: 'text' | 'image' | 'file';
+  replyTo?: mongoose.Types.ObjectId;
+  attachment?: mongoose.Types.ObjectId;
+  sendAt: Date;
+  status: 'pending' | 'processing' | 'sent' | 'failed';
+  processingStartedAt?: Date;
+  message?: mongoose.Types.ObjectId;
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const scheduledMessageSchema = new Schema<IScheduledMessage>(
+  {
+    sender: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Sender is required'],
+    },
+    receiver: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Receiver is required'],
+    },
+    // May be empty when an attachment is scheduled without a caption.
+    content: {
+      type: String,
+      default: '',
+      trim: true,
+    },
+    messageType: {
+      type: String,
+      enum: ['text', 'image', 'file'],
+      default: 'text',
+    },
+    replyTo: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+    },
+    attachment: {
+      type: Schema.Types.ObjectId,
+      ref: 'Attachment',
+    },
+    sendAt: {
+      type: Date,
+      required: [true, 'Send time is required'],
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'sent', 'failed'],
+      default: 'pending',
+    },
+    // Lets another run take over a send interrupted by a restart.
+    processingStartedAt: {
+      type: Date,
+    },
+    // ID of the delivered message; assigned when processing starts so a
+    // retried send reuses it instead of creating a duplicate.
+    message: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+    },
+    failureReason: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+scheduledMessageSchema.index({ status: 1, sendAt: 1 });
+scheduledMessageSchema.index({ sender: 1, status: 1, sendAt: 1 });
+scheduledMessageSchema.index({ attachment: 1 }, { sparse: true });
+
+export const ScheduledMessage = mongoose.model<IScheduledMessage>(
+  'ScheduledMessage',
+  scheduledMessageSchema
+);
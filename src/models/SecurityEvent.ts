@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISecurityEvent extends Document {
+  user: mongoose.Types.ObjectId;
+  type: 'refresh_token_reuse';
+  session?: mongoose.Types.ObjectId;
+  deviceName?: string;
+  tokenJti?: string;
+  ip: string;
+  userAgent: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const securityEventSchema = new Schema<ISecurityEvent>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+    },
+    type: {
+      type: String,
+      enum: ['refresh_token_reuse'],
+      required: [true, 'Event type is required'],
+    },
+    session: {
+      type: Schema.Types.ObjectId,
+      ref: 'Session',
+    },
+    deviceName: {
+      type: String,
+    },
+    tokenJti: {
+      type: String,
+    },
+    ip: {
+      type: String,
+      default: '',
+    },
+    userAgent: {
+      type: String,
+      default: '',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+securityEventSchema.index({ user: 1, createdAt: -1 });
+
+export const SecurityEvent = mongoose.model<ISecurityEvent>('SecurityEvent', securityEventSchema);
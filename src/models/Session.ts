@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISession extends Document {
+  user: mongoose.Types.ObjectId;
+  deviceName: string;
+  userAgent: string;
+  ip: string;
+  refreshTokenHash: string;
+  refreshTokenJti?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+    },
+    deviceName: {
+      type: String,
+      trim: true,
+      default: 'Unknown device',
+      maxlength: [100, 'Device name cannot exceed 100 characters'],
+    },
+    userAgent: {
+      type: String,
+      default: '',
+    },
+    ip: {
+      type: String,
+      default: '',
+    },
+    refreshTokenHash: {
+      type: String,
+      required: [true, 'Refresh token hash is required'],
+      select: false,
+    },
+    refreshTokenJti: {
+      type: String,
+      select: false,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+sessionSchema.index({ user: 1, lastUsedAt: -1 });
+// Sessions disappear on their own once the refresh token can no longer be used.
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<ISession>('Session', sessionSchema);
@@ -1,6 +1,13 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
 
+export interface IUserIdentity {
+  provider: string;
+  subject: string;
+  email?: string;
+  linkedAt: Date;
+}
+
 export interface IUser extends Document {
   username: string;
   email: string;
@@ -8,12 +15,39 @@ export interface IUser extends Document {
   avatar?: string;
   status: 'online' | 'offline' | 'away';
   lastSeen: Date;
-  refreshToken?: string;
+  emailVerified: boolean;
+  emailVerificationToken?: string;
+  emailVerificationExpires?: Date;
+  pendingEmail?: string;
+  emailChangeToken?: string;
+  emailChangeExpires?: Date;
+  passwordResetToken?: string;
+  passwordResetExpires?: Date;
+  mfaEnabled: boolean;
+  mfaSecret?: string;
+  mfaPendingSecret?: string;
+  mfaRecoveryCodes?: string[];
+  mfaLastUsedStep?: number;
+  tokenVersion: number;
+  failedLoginAttempts?: number;
+  lockUntil?: Date;
+  identities: IUserIdentity[];
+  deletionRequestedAt?: Date;
+  deletionScheduledFor?: Date;
+  deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
 }
 
+export const DELETED_USER_NAME = 'Deleted user';
+
+/**
+ * Fields to select when populating another user for display. `deletedAt`
+ * lets the JSON transform show anonymized accounts as "Deleted user".
+ */
+export const PUBLIC_USER_FIELDS = 'username avatar deletedAt';
+
 const userSchema = new Schema<IUser>(
   {
     username: {
@@ -34,7 +68,13 @@ const userSchema = new Schema<IUser>(
     },
     password: {
       type: String,
-      required: [true, 'Password is required'],
+      // Accounts created through an external identity provider have no password.
+      required: [
+        function (this: IUser) {
+          return !this.identities || this.identities.length === 0;
+        },
+        'Password is required',
+      ],
       minlength: [6, 'Password must be at least 6 characters'],
       select: false,
     },
@@ -51,13 +91,103 @@ const userSchema = new Schema<IUser>(
       type: Date,
       default: Date.now,
     },
-    refreshToken: {
+    emailVerified: {
+      type: Boolean,
+      default: false,
+    },
+    emailVerificationToken: {
+      type: String,
+      select: false,
+    },
+    emailVerificationExpires: {
+      type: Date,
+      select: false,
+    },
+    pendingEmail: {
+      type: String,
+      lowercase: true,
+      trim: true,
+    },
+    emailChangeToken: {
+      type: String,
+      select: false,
+    },
+    emailChangeExpires: {
+      type: Date,
+      select: false,
+    },
+    passwordResetToken: {
+      type: String,
+      select: false,
+    },
+    passwordResetExpires: {
+      type: Date,
+      select: false,
+    },
+    mfaEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    mfaSecret: {
       type: String,
       select: false,
     },
+    mfaPendingSecret: {
+      type: String,
+      select: false,
+    },
+    mfaRecoveryCodes: {
+      type: [String],
+      select: false,
+      default: undefined,
+    },
+    mfaLastUsedStep: {
+      type: Number,
+      select: false,
+    },
+    tokenVersion: {
+      type: Number,
+      default: 0,
+    },
+    failedLoginAttempts: {
+      type: Number,
+      default: 0,
+      select: false,
+    },
+    lockUntil: {
+      type: Date,
+      select: false,
+    },
+    identities: [
+      {
+        _id: false,
+        provider: { type: String, required: true },
+        subject: { type: String, required: true },
+        email: { type: String },
+        linkedAt: { type: Date, default: Date.now },
+      },
+    ],
+    deletionRequestedAt: {
+      type: Date,
+    },
+    deletionScheduledFor: {
+      type: Date,
+    },
+    deletedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        if (ret.deletedAt) {
+          ret.username = DELETED_USER_NAME;
+          ret.avatar = '';
+        }
+        return ret;
+      },
+    },
   }
 );
 
@@ -72,7 +202,17 @@ userSchema.pre('save', async function (next) {
 userSchema.methods.comparePassword = async function (
   candidatePassword: string
 ): Promise<boolean> {
+  if (!this.password) return false;
   return bcrypt.compare(candidatePassword, this.password);
 };
 
+userSchema.index({ emailVerificationToken: 1 }, { sparse: true });
+userSchema.index({ emailChangeToken: 1 }, { sparse: true });
+userSchema.index({ passwordResetToken: 1 }, { sparse: true });
+userSchema.index({ deletionScheduledFor: 1 }, { sparse: true });
+userSchema.index(
+  { 'identities.provider': 1, 'identities.subject': 1 },
+  { unique: true, partialFilterExpression: { 'identities.subject': { $exists: true } } }
+);
+
 export const User = mongoose.model<IUser>('User', userSchema);
@@ -0,0 +1,135 @@
+import { Router } from 'express';
+import { uploadAttachment, downloadAttachment } from '../controllers/attachmentController';
+import { authenticate } from '../middleware/auth';
+import { uploadSingleFile } from '../middleware/upload';
+
+const router = Router();
+
+router.use(authenticate);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Attachment:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439020
+ *         name:
+ *           type: string
+ *           example: holiday.jpg
+ *         size:
+ *           type: integer
+ *           description: Size in bytes
+ *           example: 284512
+ *         mimeType:
+ *           type: string
+ *           description: Detected from the file contents
+ *           example: image/jpeg
+ *         width:
+ *           type: integer
+ *           description: Images only
+ *           example: 1920
+ *         height:
+ *           type: integer
+ *           description: Images only
+ *           example: 1080
+ *         url:
+ *           type: string
+ *           description: Authenticated download URL
+ *           example: /api/attachments/507f1f77bcf86cd799439020
+ */
+
+/**
+ * @swagger
+ * /api/attachments:
+ *   post:
+ *     summary: Upload a file to attach to a message
+ *     description: Upload first, then send a message with the returned `attachmentId`. The type is detected from the file contents; images, audio, video, PDF, Office documents, ZIP archives and plain text are accepted. Uploads that are not sent within ATTACHMENT_ORPHAN_TTL_HOURS are deleted.
+ *     tags: [Attachments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: File uploaded successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: File uploaded successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     attachment:
+ *                       $ref: '#/components/schemas/Attachment'
+ *       400:
+ *         description: No file provided
+ *       401:
+ *         description: Unauthorized
+ *       413:
+ *         description: File larger than ATTACHMENT_MAX_SIZE_MB
+ *       415:
+ *         description: Unsupported file type
+ */
+
+/**
+ * @swagger
+ * /api/attachments/{attachmentId}:
+ *   get:
+ *     summary: Download an attachment
+ *     description: Available to the uploader and, once sent, to every participant of the conversation. Images are served inline, other files as downloads.
+ *     tags: [Attachments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439020
+ *     responses:
+ *       200:
+ *         description: The file contents
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid attachment ID
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Attachment not found or not accessible
+ */
+
+// ============================================
+// ROUTES
+// ============================================
+
+router.post('/', uploadSingleFile('file'), uploadAttachment);
+
+router.get('/:attachmentId', downloadAttachment);
+
+export default router;
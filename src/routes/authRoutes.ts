@@ -5,10 +5,34 @@ import {
   login,
   refreshToken,
   logout,
+  logoutAll,
   getProfile,
   updateProfile,
+  verifyEmail,
+  resendVerificationEmail,
+  forgotPassword,
+  resetPassword,
+  getSessions,
+  revokeSession,
+  getSecurityEvents,
+  verifyMfaLogin,
+  setupMfa,
+  confirmMfa,
+  disableMfa,
+  exportAccountData,
+  deleteAccount,
+  changePassword,
+  requestEmailChange,
+  confirmEmailChange,
 } from '../controllers/authController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, authenticateAllowUnverified } from '../middleware/auth';
+import {
+  loginIpLimiter,
+  loginAccountLimiter,
+  signupIpLimiter,
+  sensitiveIpLimiter,
+  sensitiveAccountLimiter,
+} from '../middleware/rateLimiter';
 
 const router = Router();
 
@@ -78,6 +102,9 @@ const router = Router();
  *                         status:
  *                           type: string
  *                           example: offline
+ *                         emailVerified:
+ *                           type: boolean
+ *                           example: false
  *                     accessToken:
  *                       type: string
  *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
@@ -97,6 +124,7 @@ const router = Router();
  * /api/auth/login:
  *   post:
  *     summary: Login user
+ *     description: When two-factor authentication is enabled the response contains `mfaRequired` and a short-lived `mfaToken` instead of the token pair. Exchange it at `POST /api/auth/mfa/verify`.
  *     tags: [Authentication]
  *     security: []
  *     requestBody:
@@ -116,6 +144,10 @@ const router = Router();
  *               password:
  *                 type: string
  *                 example: password123
+ *               deviceName:
+ *                 type: string
+ *                 description: Optional label for this session, shown in the sessions list
+ *                 example: John's laptop
  *     responses:
  *       200:
  *         description: Login successful
@@ -151,6 +183,9 @@ const router = Router();
  *                         status:
  *                           type: string
  *                           example: online
+ *                         emailVerified:
+ *                           type: boolean
+ *                           example: true
  *                     accessToken:
  *                       type: string
  *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
@@ -161,6 +196,10 @@ const router = Router();
  *         description: Validation failed
  *       401:
  *         description: Invalid credentials
+ *       423:
+ *         description: Account temporarily locked after repeated failures (see Retry-After header)
+ *       429:
+ *         description: Too many login attempts from this IP or for this account (see Retry-After header)
  *       500:
  *         description: Login failed
  */
@@ -210,7 +249,7 @@ const router = Router();
  *       400:
  *         description: Refresh token required
  *       401:
- *         description: Invalid refresh token
+ *         description: Invalid refresh token, or reuse of an already-rotated token (the whole session is revoked)
  *       500:
  *         description: Token refresh failed
  */
@@ -220,6 +259,7 @@ const router = Router();
  * /api/auth/logout:
  *   post:
  *     summary: Logout user
+ *     description: Ends the current session and revokes the access token used for the request immediately.
  *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
@@ -290,6 +330,9 @@ const router = Router();
  *                           type: string
  *                           format: date-time
  *                           example: 2024-01-01T12:00:00.000Z
+ *                         emailVerified:
+ *                           type: boolean
+ *                           example: true
  *                         createdAt:
  *                           type: string
  *                           format: date-time
@@ -376,43 +419,935 @@ const router = Router();
  *         description: Failed to update profile
  */
 
-router.post(
-  '/signup',
-  [
-    body('username')
-      .trim()
-      .isLength({ min: 3, max: 30 })
-      .withMessage('Username must be between 3 and 30 characters'),
-    body('email')
-      .trim()
-      .isEmail()
-      .withMessage('Please provide a valid email'),
-    body('password')
-      .isLength({ min: 6 })
-      .withMessage('Password must be at least 6 characters'),
-  ],
-  signup
-);
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   post:
+ *     summary: Verify an email address with the token sent after signup
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 example: 3f6c1d0e9a7b4c2e8d5f1a0b6c9e2d4f7a1b3c5d7e9f0a2b4c6d8e0f1a3b5c7d
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Email verified successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     user:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                           example: 507f1f77bcf86cd799439011
+ *                         email:
+ *                           type: string
+ *                           example: john@example.com
+ *                         emailVerified:
+ *                           type: boolean
+ *                           example: true
+ *       400:
+ *         description: Invalid or expired verification token
+ *       500:
+ *         description: Email verification failed
+ */
 
-router.post(
-  '/login',
-  [
-    body('email')
-      .trim()
-      .isEmail()
-      .withMessage('Please provide a valid email'),
-    body('password')
-      .notEmpty()
-      .withMessage('Password is required'),
-  ],
-  login
-);
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     summary: Send a new email verification link
+ *     description: Always responds with success so it cannot be used to find out which emails are registered.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: john@example.com
+ *     responses:
+ *       200:
+ *         description: Verification email sent if the account exists and is unverified
+ *       400:
+ *         description: Validation failed
+ *       500:
+ *         description: Failed to resend verification email
+ */
 
-router.post('/refresh', refreshToken);
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset link
+ *     description: Always responds with success so it cannot be used to find out which emails are registered.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: john@example.com
+ *     responses:
+ *       200:
+ *         description: Reset email sent if the account exists
+ *       400:
+ *         description: Validation failed
+ *       500:
+ *         description: Failed to start password reset
+ */
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Set a new password using a reset token
+ *     description: Reset tokens are single use and expire. A successful reset logs out every existing session.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 example: 9b2f4e6a8c0d1e3f5a7b9c1d3e5f7a9b0c2d4e6f8a0b1c3d5e7f9a1b3c5d7e9f
+ *               password:
+ *                 type: string
+ *                 minLength: 6
+ *                 example: newPassword123
+ *     responses:
+ *       200:
+ *         description: Password reset successful
+ *       400:
+ *         description: Validation failed or invalid/expired reset token
+ *       500:
+ *         description: Password reset failed
+ */
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List the devices the user is logged in on
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Sessions retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     sessions:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             example: 65a1f77bcf86cd7994390a1
+ *                           deviceName:
+ *                             type: string
+ *                             example: Chrome on macOS
+ *                           userAgent:
+ *                             type: string
+ *                             example: Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36
+ *                           ip:
+ *                             type: string
+ *                             example: 203.0.113.7
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *                             example: 2024-12-20T09:00:00.000Z
+ *                           lastUsedAt:
+ *                             type: string
+ *                             format: date-time
+ *                             example: 2024-12-24T12:30:00.000Z
+ *                           current:
+ *                             type: boolean
+ *                             example: true
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Failed to retrieve sessions
+ */
+
+/**
+ * @swagger
+ * /api/auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke a session so its refresh token stops working
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 65a1f77bcf86cd7994390a1
+ *         description: Session ID
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *       400:
+ *         description: Invalid session ID
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Session not found
+ *       500:
+ *         description: Failed to revoke session
+ */
+
+/**
+ * @swagger
+ * /api/auth/security-events:
+ *   get:
+ *     summary: List recent security incidents on the account
+ *     description: Currently records refresh token reuse, which revokes the affected session.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Security events retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Security events retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     events:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           _id:
+ *                             type: string
+ *                             example: 65a1f77bcf86cd7994390b2
+ *                           type:
+ *                             type: string
+ *                             enum: [refresh_token_reuse]
+ *                             example: refresh_token_reuse
+ *                           deviceName:
+ *                             type: string
+ *                             example: Chrome on macOS
+ *                           ip:
+ *                             type: string
+ *                             example: 203.0.113.7
+ *                           userAgent:
+ *                             type: string
+ *                             example: curl/8.4.0
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *                             example: 2024-12-24T12:30:00.000Z
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Failed to retrieve security events
+ */
+
+/**
+ * @swagger
+ * /api/auth/mfa/verify:
+ *   post:
+ *     summary: Complete a two-factor login
+ *     description: Exchanges the `mfaToken` returned by login plus a TOTP code (or an unused recovery code) for an access/refresh token pair.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mfaToken
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ *                 example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *               code:
+ *                 type: string
+ *                 example: "492039"
+ *               recoveryCode:
+ *                 type: string
+ *                 example: 3f9a2-c81d0
+ *               deviceName:
+ *                 type: string
+ *                 example: John's laptop
+ *     responses:
+ *       200:
+ *         description: Login successful, same payload as `POST /api/auth/login` plus `recoveryCodesRemaining`
+ *       400:
+ *         description: Validation failed
+ *       401:
+ *         description: Invalid or expired MFA token, or invalid code
+ *       423:
+ *         description: Account temporarily locked after repeated failed codes (see Retry-After header)
+ *       500:
+ *         description: Login failed
+ */
 
-router.post('/logout', authenticate, logout);
+/**
+ * @swagger
+ * /api/auth/mfa/setup:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: Generates a TOTP secret. Nothing changes until the secret is confirmed with a code.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Scan the QR code with your authenticator app, then confirm with a code
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       example: JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP
+ *                     otpauthUri:
+ *                       type: string
+ *                       example: otpauth://totp/ClashChat%3Ajohn%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=ClashChat&algorithm=SHA1&digits=6&period=30
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: MFA already enabled
+ *       500:
+ *         description: Failed to start MFA setup
+ */
+
+/**
+ * @swagger
+ * /api/auth/mfa/confirm:
+ *   post:
+ *     summary: Confirm two-factor enrollment with a first code
+ *     description: Enables two-factor authentication and returns recovery codes. They are only shown once.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "492039"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: [3f9a2-c81d0, 77b1e-0a9c4]
+ *       400:
+ *         description: Setup not started or invalid code
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: MFA already enabled
+ *       500:
+ *         description: Failed to enable MFA
+ */
+
+/**
+ * @swagger
+ * /api/auth/mfa/disable:
+ *   post:
+ *     summary: Turn off two-factor authentication
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 example: password123
+ *               code:
+ *                 type: string
+ *                 example: "492039"
+ *               recoveryCode:
+ *                 type: string
+ *                 example: 3f9a2-c81d0
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Validation failed or MFA not enabled
+ *       401:
+ *         description: Invalid password or authentication code
+ *       423:
+ *         description: Account temporarily locked after repeated failed checks (see Retry-After header)
+ *       500:
+ *         description: Failed to disable MFA
+ */
+
+/**
+ * @swagger
+ * /api/auth/logout-all:
+ *   post:
+ *     summary: Log out from every device
+ *     description: Ends all sessions and invalidates every access token issued so far. Connected sockets are disconnected with a `session_revoked` event.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out from all devices
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Logout failed
+ */
+
+/**
+ * @swagger
+ * /api/auth/export:
+ *   get:
+ *     summary: Download a copy of your data
+ *     description: Returns a ZIP archive with the profile, sessions, security events, friendships and the sent or received messages still visible to the user (not deleted for themselves, not disappeared) as JSON files.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: ZIP archive
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Failed to export account data
+ */
+
+/**
+ * @swagger
+ * /api/auth/account:
+ *   delete:
+ *     summary: Delete your account
+ *     description: >
+ *       Logs out every device and schedules the account for deletion after a grace period
+ *       (ACCOUNT_DELETION_GRACE_DAYS). Logging in before then cancels the deletion. Afterwards the
+ *       profile is anonymized; messages stay visible to the other party with a "Deleted user" sender.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 example: password123
+ *               confirmation:
+ *                 type: string
+ *                 description: Required instead of a password for accounts that only use an identity provider
+ *                 example: DELETE
+ *               code:
+ *                 type: string
+ *                 description: Required, or a recovery code, when two-factor authentication is enabled
+ *                 example: "492039"
+ *               recoveryCode:
+ *                 type: string
+ *                 example: 3f9a2-c81d0
+ *     responses:
+ *       200:
+ *         description: Account scheduled for deletion
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Account scheduled for deletion. Log in again before the deadline to cancel
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     scheduledFor:
+ *                       type: string
+ *                       format: date-time
+ *                       example: 2025-01-07T12:30:00.000Z
+ *                     gracePeriodDays:
+ *                       type: integer
+ *                       example: 14
+ *       400:
+ *         description: Validation failed or confirmation required
+ *       401:
+ *         description: Invalid password or authentication code
+ *       423:
+ *         description: Account temporarily locked after repeated failed checks (see Retry-After header)
+ *       500:
+ *         description: Failed to delete account
+ */
+
+/**
+ * @swagger
+ * /api/auth/password:
+ *   put:
+ *     summary: Change the password
+ *     description: Requires the current password. Logs out every other session and returns a new token pair for the current one.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentPassword
+ *               - newPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *                 example: password123
+ *               newPassword:
+ *                 type: string
+ *                 minLength: 6
+ *                 example: newPassword123
+ *     responses:
+ *       200:
+ *         description: Password changed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Password changed successfully, other devices have been logged out
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     accessToken:
+ *                       type: string
+ *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                     refreshToken:
+ *                       type: string
+ *                       example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *       400:
+ *         description: Validation failed, no password set, or new password equals the current one
+ *       401:
+ *         description: Current password is incorrect
+ *       500:
+ *         description: Password change failed
+ */
+
+/**
+ * @swagger
+ * /api/auth/email:
+ *   post:
+ *     summary: Request an email address change
+ *     description: Sends a confirmation link to the new address and a notice to the current one. The email used for login only changes once the link is opened.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - newEmail
+ *               - password
+ *             properties:
+ *               newEmail:
+ *                 type: string
+ *                 format: email
+ *                 example: john.new@example.com
+ *               password:
+ *                 type: string
+ *                 example: password123
+ *     responses:
+ *       200:
+ *         description: Confirmation link sent to the new address
+ *       400:
+ *         description: Validation failed, no password set, or email unchanged
+ *       401:
+ *         description: Invalid password
+ *       409:
+ *         description: Email already registered
+ *       500:
+ *         description: Email change failed
+ *       502:
+ *         description: Confirmation email could not be sent; nothing was changed and the request can be retried
+ */
+
+/**
+ * @swagger
+ * /api/auth/email/confirm:
+ *   post:
+ *     summary: Confirm an email address change
+ *     description: Switches the account to the new address. Outstanding access tokens are revoked; refresh them to get tokens with the new email.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 example: 9b2f4e6a8c0d1e3f5a7b9c1d3e5f7a9b0c2d4e6f8a0b1c3d5e7f9a1b3c5d7e9f
+ *     responses:
+ *       200:
+ *         description: Email changed successfully
+ *       400:
+ *         description: Validation failed or invalid/expired token
+ *       409:
+ *         description: Email already registered
+ *       500:
+ *         description: Email change failed
+ */
+
+router.post(
+  '/signup',
+  signupIpLimiter,
+  [
+    body('username')
+      .trim()
+      .isLength({ min: 3, max: 30 })
+      .withMessage('Username must be between 3 and 30 characters'),
+    body('email')
+      .trim()
+      .isEmail()
+      .withMessage('Please provide a valid email'),
+    body('password')
+      .isLength({ min: 6 })
+      .withMessage('Password must be at least 6 characters'),
+  ],
+  signup
+);
+
+router.post(
+  '/login',
+  loginIpLimiter,
+  loginAccountLimiter,
+  [
+    body('email')
+      .trim()
+      .isEmail()
+      .withMessage('Please provide a valid email'),
+    body('password')
+      .notEmpty()
+      .withMessage('Password is required'),
+  ],
+  login
+);
+
+router.post('/refresh', refreshToken);
+
+router.post(
+  '/mfa/verify',
+  sensitiveIpLimiter,
+  [
+    body('mfaToken')
+      .isString()
+      .notEmpty()
+      .withMessage('MFA token is required'),
+    body('code')
+      .optional()
+      .isString()
+      .withMessage('Authentication code must be a string'),
+    body('recoveryCode')
+      .optional()
+      .isString()
+      .withMessage('Recovery code must be a string'),
+    body()
+      .custom((value) => Boolean(value.code || value.recoveryCode))
+      .withMessage('Authentication code or recovery code is required'),
+  ],
+  verifyMfaLogin
+);
+
+router.post('/mfa/setup', authenticate, setupMfa);
+
+router.post(
+  '/mfa/confirm',
+  authenticate,
+  sensitiveIpLimiter,
+  [
+    body('code')
+      .isString()
+      .notEmpty()
+      .withMessage('Authentication code is required'),
+  ],
+  confirmMfa
+);
+
+router.post(
+  '/mfa/disable',
+  authenticate,
+  sensitiveIpLimiter,
+  [
+    body('password')
+      .notEmpty()
+      .withMessage('Password is required'),
+    body('code')
+      .optional()
+      .isString()
+      .withMessage('Authentication code must be a string'),
+    body('recoveryCode')
+      .optional()
+      .isString()
+      .withMessage('Recovery code must be a string'),
+    body()
+      .custom((value) => Boolean(value.code || value.recoveryCode))
+      .withMessage('Authentication code or recovery code is required'),
+  ],
+  disableMfa
+);
+
+router.post(
+  '/verify-email',
+  sensitiveIpLimiter,
+  [
+    body('token')
+      .isString()
+      .notEmpty()
+      .withMessage('Verification token is required'),
+  ],
+  verifyEmail
+);
+
+router.post(
+  '/resend-verification',
+  sensitiveIpLimiter,
+  sensitiveAccountLimiter,
+  [
+    body('email')
+      .trim()
+      .isEmail()
+      .withMessage('Please provide a valid email'),
+  ],
+  resendVerificationEmail
+);
+
+router.post(
+  '/forgot-password',
+  sensitiveIpLimiter,
+  sensitiveAccountLimiter,
+  [
+    body('email')
+      .trim()
+      .isEmail()
+      .withMessage('Please provide a valid email'),
+  ],
+  forgotPassword
+);
+
+router.post(
+  '/reset-password',
+  sensitiveIpLimiter,
+  [
+    body('token')
+      .isString()
+      .notEmpty()
+      .withMessage('Reset token is required'),
+    body('password')
+      .isLength({ min: 6 })
+      .withMessage('Password must be at least 6 characters'),
+  ],
+  resetPassword
+);
+
+router.put(
+  '/password',
+  authenticate,
+  sensitiveIpLimiter,
+  [
+    body('currentPassword')
+      .notEmpty()
+      .withMessage('Current password is required'),
+    body('newPassword')
+      .isLength({ min: 6 })
+      .withMessage('Password must be at least 6 characters'),
+  ],
+  changePassword
+);
+
+router.post(
+  '/email',
+  authenticateAllowUnverified,
+  sensitiveIpLimiter,
+  [
+    body('newEmail')
+      .trim()
+      .isEmail()
+      .withMessage('Please provide a valid email'),
+    body('password')
+      .notEmpty()
+      .withMessage('Password is required'),
+  ],
+  requestEmailChange
+);
+
+router.post(
+  '/email/confirm',
+  sensitiveIpLimiter,
+  [
+    body('token')
+      .isString()
+      .notEmpty()
+      .withMessage('Confirmation token is required'),
+  ],
+  confirmEmailChange
+);
+
+router.post('/logout', authenticateAllowUnverified, logout);
+
+router.post('/logout-all', authenticateAllowUnverified, logoutAll);
+
+router.get('/sessions', authenticate, getSessions);
+
+router.delete('/sessions/:sessionId', authenticate, revokeSession);
+
+router.get('/security-events', authenticate, getSecurityEvents);
+
+router.get('/export', authenticateAllowUnverified, exportAccountData);
+
+router.delete(
+  '/account',
+  authenticateAllowUnverified,
+  sensitiveIpLimiter,
+  [
+    body('code')
+      .optional()
+      .isString()
+      .withMessage('Authentication code must be a string'),
+    body('recoveryCode')
+      .optional()
+      .isString()
+      .withMessage('Recovery code must be a string'),
+  ],
+  deleteAccount
+);
 
-router.get('/profile', authenticate, getProfile);
+router.get('/profile', authenticateAllowUnverified, getProfile);
 
 router.put(
   '/profile',
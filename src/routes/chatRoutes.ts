@@ -11,6 +11,7 @@ router.use(authenticate);
  * /api/chats:
  *   get:
  *     summary: Get all chat conversations for the authenticated user
+ *     description: Direct chats and groups in one list, most recent message first. `type` tells them apart; friend fields are only set on direct chats and group fields only on groups.
  *     tags: [Chats]
  *     security:
  *       - bearerAuth: []
@@ -29,6 +30,12 @@ router.use(authenticate);
  *           default: 0
  *           example: 0
  *         description: Number of chats to skip (for pagination)
+ *       - in: query
+ *         name: includeReactions
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Include `lastReaction`, the friend's latest reaction to one of your messages when it is newer than the last message
  *     responses:
  *       200:
  *         description: Chats retrieved successfully
@@ -51,6 +58,10 @@ router.use(authenticate);
  *                       items:
  *                         type: object
  *                         properties:
+ *                           type:
+ *                             type: string
+ *                             enum: [direct, group]
+ *                             example: direct
  *                           friendId:
  *                             type: string
  *                             example: 507f1f77bcf86cd799439011
@@ -66,6 +77,23 @@ router.use(authenticate);
  *                               avatar:
  *                                 type: string
  *                                 example: https://api.dicebear.com/7.x/avataaars/svg?seed=jane_smith
+ *                           conversationId:
+ *                             type: string
+ *                             description: Groups only
+ *                             example: 507f1f77bcf86cd799439030
+ *                           name:
+ *                             type: string
+ *                             description: Groups only
+ *                             example: Weekend trip
+ *                           role:
+ *                             type: string
+ *                             enum: [owner, admin, member]
+ *                             description: Groups only; your role in the group
+ *                             example: member
+ *                           memberCount:
+ *                             type: integer
+ *                             description: Groups only
+ *                             example: 4
  *                           lastMessage:
  *                             type: object
  *                             properties:
@@ -77,11 +105,12 @@ router.use(authenticate);
  *                                 example: Hey! How are you doing?
  *                               messageType:
  *                                 type: string
- *                                 enum: [text, image, file]
+ *                                 enum: [text, image, file, system]
  *                                 example: text
  *                               status:
  *                                 type: string
  *                                 enum: [sent, delivered, read]
+ *                                 description: Direct chats only
  *                                 example: read
  *                               createdAt:
  *                                 type: string
@@ -96,9 +125,39 @@ router.use(authenticate);
  *                                   username:
  *                                     type: string
  *                                     example: john_doe
+ *                           disappearingTimer:
+ *                             type: string
+ *                             enum: ['off', 1h, 24h, 7d]
+ *                             description: Direct chats only
+ *                             example: 'off'
+ *                           hasPins:
+ *                             type: boolean
+ *                             description: Direct chats only; whether the conversation has pinned messages
+ *                             example: false
  *                           unreadCount:
  *                             type: integer
  *                             example: 3
+ *                           lastReaction:
+ *                             type: object
+ *                             nullable: true
+ *                             description: Only present with includeReactions=true, on direct chats
+ *                             properties:
+ *                               messageId:
+ *                                 type: string
+ *                                 example: 507f1f77bcf86cd799439013
+ *                               emoji:
+ *                                 type: string
+ *                                 example: 👍
+ *                               messageType:
+ *                                 type: string
+ *                                 example: text
+ *                               snippet:
+ *                                 type: string
+ *                                 example: Hey! How are you doing?
+ *                               createdAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                                 example: 2024-12-24T12:31:00.000Z
  *                           updatedAt:
  *                             type: string
  *                             format: date-time
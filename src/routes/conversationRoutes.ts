@@ -0,0 +1,601 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import {
+  createConversation,
+  getConversation,
+  renameConversation,
+  addConversationMembers,
+  removeConversationMember,
+  updateConversationMember,
+  leaveConversation,
+  readConversation,
+} from '../controllers/conversationController';
+import { getConversationMessages } from '../controllers/messageController';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+router.use(authenticate);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Group:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439030
+ *         name:
+ *           type: string
+ *           example: Weekend trip
+ *         createdBy:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439010
+ *         members:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               user:
+ *                 type: object
+ *                 properties:
+ *                   _id:
+ *                     type: string
+ *                     example: 507f1f77bcf86cd799439011
+ *                   username:
+ *                     type: string
+ *                     example: jane_smith
+ *                   avatar:
+ *                     type: string
+ *                     example: https://api.dicebear.com/7.x/avataaars/svg?seed=jane_smith
+ *               role:
+ *                 type: string
+ *                 enum: [owner, admin, member]
+ *                 example: member
+ *               joinedAt:
+ *                 type: string
+ *                 format: date-time
+ *                 example: 2024-12-24T12:30:00.000Z
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           example: 2024-12-24T12:30:00.000Z
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *           example: 2024-12-24T12:30:00.000Z
+ *     GroupChange:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: true
+ *         message:
+ *           type: string
+ *         data:
+ *           type: object
+ *           properties:
+ *             conversation:
+ *               $ref: '#/components/schemas/Group'
+ *             message:
+ *               type: object
+ *               nullable: true
+ *               description: The `system` message announcing the change, delivered to the members like any message
+ */
+
+/**
+ * @swagger
+ * /api/conversations:
+ *   post:
+ *     summary: Create a group
+ *     description: You become the owner. Members must be your friends. All members receive a `conversation_updated` socket event, then the `system` message announcing the group.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - memberIds
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *                 example: Weekend trip
+ *               memberIds:
+ *                 type: array
+ *                 description: Friends to add; the group can have at most GROUP_MAX_MEMBERS members including you
+ *                 items:
+ *                   type: string
+ *                 example: [507f1f77bcf86cd799439011, 507f1f77bcf86cd799439015]
+ *     responses:
+ *       201:
+ *         description: Group created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/GroupChange'
+ *       400:
+ *         description: Invalid name or member IDs, or too many members
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: A member is not your friend
+ *       410:
+ *         description: A member deleted their account
+ */
+
+/**
+ * @swagger
+ * /api/conversations/{conversationId}:
+ *   get:
+ *     summary: Get a group with its members
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: conversationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439030
+ *     responses:
+ *       200:
+ *         description: Group retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Group retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     conversation:
+ *                       $ref: '#/components/schemas/Group'
+ *       400:
+ *         description: Invalid conversation ID
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Group not found or you are not a member
+ *   patch:
+ *     summary: Rename a group
+ *     description: Owner and admins only. Renaming to the current name has no effect and sends no message.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: conversationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439030
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *                 example: Weekend trip 🏕️
+ *     responses:
+ *       200:
+ *         description: Group updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/GroupChange'
+ *       400:
+ *         description: Invalid name
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin
+ *       404:
+ *         description: Group not found or you are not a member
+ */
+
+/**
+ * @swagger
+ * /api/conversations/{conversationId}/messages:
+ *   get:
+ *     summary: Get the messages of a group
+ *     description: Same pagination as `GET /api/messages/{friendId}`. Fetching does not change your read receipt; use `POST /api/conversations/{conversationId}/read`. Each message has `status`, `deliveredTo` and `readBy` computed from the receipts of the members who were in the group when it was sent.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: conversationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439030
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: string
+ *         description: Message ID; load messages older than it
+ *       - in: query
+ *         name: after
+ *         schema:
+ *           type: string
+ *         description: Message ID; load messages newer than it
+ *       - in: query
+ *         name: around
+ *         schema:
+ *           type: string
+ *         description: Message ID; load it with context on both sides
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Messages retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Messages retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     messages:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           conversation:
+ *                             type: string
+ *                             example: 507f1f77bcf86cd799439030
+ *                           status:
+ *                             type: string
+ *                             enum: [sent, delivered, read]
+ *                             description: Read once every member has read it, delivered once every member has received it
+ *                             example: delivered
+ *                           deliveredTo:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                             example: [507f1f77bcf86cd799439011, 507f1f77bcf86cd799439015]
+ *                           readBy:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                             example: [507f1f77bcf86cd799439011]
+ *                     unreadCount:
+ *                       type: integer
+ *                       description: Messages from others after your read receipt
+ *                       example: 2
+ *                     pagination:
+ *                       type: object
+ *                       description: Same as `GET /api/messages/{friendId}`
+ *       400:
+ *         description: Invalid conversation ID or cursor
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Group not found, or the cursor message is not part of it
+ */
+
+/**
+ * @swagger
+ * /api/conversations/{conversationId}/read:
+ *   post:
+ *     summary: Mark a group read up to a message
+ *     description: Moves your read receipt to the given message, or to the newest message without one. It never moves back. The members receive one `conversation_read` socket event.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: conversationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439030
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               messageId:
+ *                 type: string
+ *                 description: The last message you have read
+ *                 example: 507f1f77bcf86cd799439013
+ *     responses:
+ *       200:
+ *         description: Group marked as read
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Group marked as read
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     conversationId:
+ *                       type: string
+ *                       example: 507f1f77bcf86cd799439030
+ *                     unreadCount:
+ *                       type: integer
+ *                       description: Messages from others still unread
+ *                       example: 0
+ *       400:
+ *         description: Invalid conversation or message ID
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Group or message not found
+ */
+
+/**
+ * @swagger
+ * /api/conversations/{conversationId}/members:
+ *   post:
+ *     summary: Add members to a group
+ *     description: Owner and admins only. New members must be friends of yours and join as `member`. They can read the group's whole history.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: conversationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439030
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userIds
+ *             properties:
+ *               userIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: [507f1f77bcf86cd799439016]
+ *     responses:
+ *       200:
+ *         description: Members added successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/GroupChange'
+ *       400:
+ *         description: Invalid user IDs, already members, or too many members
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin, or a user is not your friend
+ *       404:
+ *         description: Group not found or you are not a member
+ *       409:
+ *         description: The group changed at the same time; retry
+ */
+
+/**
+ * @swagger
+ * /api/conversations/{conversationId}/members/{userId}:
+ *   patch:
+ *     summary: Change the role of a member
+ *     description: Owner only. Makes a member an admin or an admin a member.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: conversationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439030
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439011
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [admin, member]
+ *                 example: admin
+ *     responses:
+ *       200:
+ *         description: Member role updated successfully
+ *       400:
+ *         description: Invalid role, or the target is the owner
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the owner
+ *       404:
+ *         description: Group or member not found
+ *   delete:
+ *     summary: Remove a member from a group
+ *     description: Admins can remove members, the owner can also remove admins. The removed user receives a `conversation_removed` socket event.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: conversationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439030
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439011
+ *     responses:
+ *       200:
+ *         description: Member removed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/GroupChange'
+ *       400:
+ *         description: Invalid ID, or trying to remove yourself
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Your role is not higher than the member's
+ *       404:
+ *         description: Group or member not found
+ *       409:
+ *         description: The group changed at the same time; retry
+ */
+
+/**
+ * @swagger
+ * /api/conversations/{conversationId}/leave:
+ *   post:
+ *     summary: Leave a group
+ *     description: When the owner leaves, the longest-standing admin (or member, if there is no admin) becomes the owner. When the last member leaves, the group is deleted with its messages.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: conversationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439030
+ *     responses:
+ *       200:
+ *         description: Left the group successfully
+ *       400:
+ *         description: Invalid conversation ID
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Group not found or you are not a member
+ */
+
+// ============================================
+// ROUTES
+// ============================================
+
+router.post(
+  '/',
+  [
+    body('name')
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Group name must be between 1 and 100 characters'),
+    body('memberIds')
+      .isArray({ min: 1 })
+      .withMessage('Add at least one friend to the group'),
+    body('memberIds.*')
+      .isMongoId()
+      .withMessage('Invalid user ID'),
+  ],
+  createConversation
+);
+
+router.get('/:conversationId', getConversation);
+
+router.patch(
+  '/:conversationId',
+  [
+    body('name')
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Group name must be between 1 and 100 characters'),
+  ],
+  renameConversation
+);
+
+router.get('/:conversationId/messages', getConversationMessages);
+
+router.post(
+  '/:conversationId/read',
+  [
+    body('messageId')
+      .optional({ values: 'null' })
+      .isMongoId()
+      .withMessage('Invalid message ID'),
+  ],
+  readConversation
+);
+
+router.post(
+  '/:conversationId/members',
+  [
+    body('userIds')
+      .isArray({ min: 1 })
+      .withMessage('Provide at least one user ID'),
+    body('userIds.*')
+      .isMongoId()
+      .withMessage('Invalid user ID'),
+  ],
+  addConversationMembers
+);
+
+router.patch(
+  '/:conversationId/members/:userId',
+  [
+    body('role')
+      .isIn(['admin', 'member'])
+      .withMessage('Role must be "admin" or "member"'),
+  ],
+  updateConversationMember
+);
+
+router.delete('/:conversationId/members/:userId', removeConversationMember);
+
+router.post('/:conversationId/leave', leaveConversation);
+
+export default router;
@@ -1,17 +1,280 @@
 import { Router } from 'express';
 import { body } from 'express-validator';
-import { getMessages, sendMessage } from '../controllers/messageController';
+import {
+  getMessages,
+  searchMessages,
+  sendMessage,
+  forwardMessage,
+  updateDisappearingTimer,
+  readMessages,
+  pinMessage,
+  unpinMessage,
+  getPins,
+  getScheduledMessages,
+  updateScheduledMessage,
+  removeScheduledMessage,
+  updateMessage,
+  removeMessage,
+  getMessageHistory,
+  addReaction,
+  removeReaction,
+} from '../controllers/messageController';
 import { authenticate } from '../middleware/auth';
 
 const router = Router();
 
 router.use(authenticate);
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ReplyPreview:
+ *       type: object
+ *       nullable: true
+ *       description: Compact preview of the quoted message. Content is dropped once the original is deleted for everyone.
+ *       properties:
+ *         _id:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439012
+ *         sender:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             _id:
+ *               type: string
+ *               example: 507f1f77bcf86cd799439011
+ *             username:
+ *               type: string
+ *               example: jane_smith
+ *         snippet:
+ *           type: string
+ *           nullable: true
+ *           example: Are we still on for tonight?
+ *         messageType:
+ *           type: string
+ *           enum: [text, image, file]
+ *           example: text
+ *         deleted:
+ *           type: boolean
+ *           example: false
+ *     ReactionSummary:
+ *       type: object
+ *       properties:
+ *         emoji:
+ *           type: string
+ *           example: 👍
+ *         count:
+ *           type: integer
+ *           example: 2
+ *         userIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: [507f1f77bcf86cd799439010, 507f1f77bcf86cd799439011]
+ *         reactedByMe:
+ *           type: boolean
+ *           example: true
+ *     LinkPreview:
+ *       type: object
+ *       nullable: true
+ *       description: Metadata of the first link in a text message. Fetched after sending; clients receive it in a `message_updated` socket event.
+ *       properties:
+ *         url:
+ *           type: string
+ *           example: https://example.com/trip
+ *         title:
+ *           type: string
+ *           example: Weekend trip plan
+ *         description:
+ *           type: string
+ *           example: Everything you need for Saturday.
+ *         image:
+ *           type: string
+ *           example: https://example.com/cover.jpg
+ *         siteName:
+ *           type: string
+ *           example: Example
+ *     ForwardOrigin:
+ *       type: object
+ *       nullable: true
+ *       description: Original sender and send time of a forwarded message. Forwarding a forwarded message keeps the first origin.
+ *       properties:
+ *         sender:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             _id:
+ *               type: string
+ *               example: 507f1f77bcf86cd799439015
+ *             username:
+ *               type: string
+ *               example: alex_lee
+ *             avatar:
+ *               type: string
+ *               example: https://api.dicebear.com/7.x/avataaars/svg?seed=alex_lee
+ *         sentAt:
+ *           type: string
+ *           format: date-time
+ *           example: 2024-12-24T12:30:00.000Z
+ */
+
+/**
+ * @swagger
+ * /api/messages/search:
+ *   get:
+ *     summary: Search your conversations
+ *     description: Full-text search over messages with your current friends and in your groups. Messages deleted for you or for everyone are excluded. Each result names the friend or group and the message, so the conversation can be opened at that point with `GET /api/messages/{friendId}?around={messageId}` or `GET /api/conversations/{conversationId}/messages?around={messageId}`.
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: birthday party
+ *         description: Search words. Use "quotes" for phrases and -word to exclude a word
+ *       - in: query
+ *         name: friendId
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439011
+ *         description: Only search the conversation with this friend
+ *       - in: query
+ *         name: conversationId
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439030
+ *         description: Only search this group
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *           example: 2024-12-01T00:00:00.000Z
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *           example: 2024-12-31T23:59:59.000Z
+ *       - in: query
+ *         name: messageType
+ *         schema:
+ *           type: string
+ *           enum: [text, image, file]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Search completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Search completed
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     results:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           messageId:
+ *                             type: string
+ *                             example: 507f1f77bcf86cd799439013
+ *                           friendId:
+ *                             type: string
+ *                             nullable: true
+ *                             description: Null for group messages
+ *                             example: 507f1f77bcf86cd799439011
+ *                           conversationId:
+ *                             type: string
+ *                             nullable: true
+ *                             description: Set for group messages
+ *                             example: null
+ *                           sender:
+ *                             type: object
+ *                             properties:
+ *                               _id:
+ *                                 type: string
+ *                                 example: 507f1f77bcf86cd799439011
+ *                               username:
+ *                                 type: string
+ *                                 example: jane_smith
+ *                           messageType:
+ *                             type: string
+ *                             example: text
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *                             example: 2024-12-24T12:30:00.000Z
+ *                           snippet:
+ *                             type: object
+ *                             properties:
+ *                               text:
+ *                                 type: string
+ *                                 example: Are you coming to my birthday party on Friday?
+ *                               highlights:
+ *                                 type: array
+ *                                 description: "[start, end) character ranges of matched words in text"
+ *                                 items:
+ *                                   type: array
+ *                                   items:
+ *                                     type: integer
+ *                                 example: [[26, 34], [35, 40]]
+ *                               truncatedStart:
+ *                                 type: boolean
+ *                                 example: false
+ *                               truncatedEnd:
+ *                                 type: boolean
+ *                                 example: false
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         page:
+ *                           type: integer
+ *                           example: 1
+ *                         limit:
+ *                           type: integer
+ *                           example: 20
+ *                         hasMore:
+ *                           type: boolean
+ *                           example: false
+ *       400:
+ *         description: Missing query or invalid filter
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not friends with friendId
+ *       500:
+ *         description: Search failed
+ */
+
 /**
  * @swagger
  * /api/messages/{friendId}:
  *   get:
  *     summary: Get messages with a friend
+ *     description: Fetching does not change read state; mark messages read with `POST /api/messages/{friendId}/read`.
  *     tags: [Messages]
  *     security:
  *       - bearerAuth: []
@@ -28,15 +291,35 @@ router.use(authenticate);
  *         schema:
  *           type: integer
  *           default: 50
+ *           maximum: 100
  *           example: 50
  *         description: Number of messages to retrieve
  *       - in: query
+ *         name: before
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439013
+ *         description: Message ID cursor. Returns messages older than this message (use `pagination.nextCursor`)
+ *       - in: query
+ *         name: after
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439013
+ *         description: Message ID cursor. Returns messages newer than this message (use `pagination.prevCursor`)
+ *       - in: query
+ *         name: around
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439013
+ *         description: Message ID to jump to. Returns the message with context on both sides
+ *       - in: query
  *         name: skip
+ *         deprecated: true
  *         schema:
  *           type: integer
  *           default: 0
  *           example: 0
- *         description: Number of messages to skip (for pagination)
+ *         description: Number of latest messages to skip. Prefer the cursors, which stay stable while new messages arrive
  *     responses:
  *       200:
  *         description: Messages retrieved successfully
@@ -56,6 +339,7 @@ router.use(authenticate);
  *                   properties:
  *                     messages:
  *                       type: array
+ *                       description: Always in chronological order (oldest first)
  *                       items:
  *                         type: object
  *                         properties:
@@ -91,25 +375,76 @@ router.use(authenticate);
  *                             example: Hello! How are you?
  *                           messageType:
  *                             type: string
- *                             enum: [text, image, file]
+ *                             enum: [text, image, file, system]
+ *                             description: "`system` messages announce conversation changes such as the disappearing-messages timer; see `systemEvent`"
  *                             example: text
+ *                           systemEvent:
+ *                             type: object
+ *                             nullable: true
+ *                             properties:
+ *                               type:
+ *                                 type: string
+ *                                 example: disappearing_timer
+ *                               timer:
+ *                                 type: string
+ *                                 example: 24h
+ *                           expiresAt:
+ *                             type: string
+ *                             format: date-time
+ *                             nullable: true
+ *                             description: When the message disappears, if the conversation had a timer when it was sent
  *                           status:
  *                             type: string
  *                             enum: [sent, delivered, read]
  *                             example: read
+ *                           replyTo:
+ *                             $ref: '#/components/schemas/ReplyPreview'
+ *                           reactions:
+ *                             type: array
+ *                             items:
+ *                               $ref: '#/components/schemas/ReactionSummary'
  *                           createdAt:
  *                             type: string
  *                             format: date-time
  *                             example: 2024-12-24T12:30:00.000Z
+ *                     disappearingTimer:
+ *                       type: string
+ *                       enum: ['off', 1h, 24h, 7d]
+ *                       example: 'off'
  *                     unreadCount:
  *                       type: integer
+ *                       description: Messages from the friend you have not read yet
  *                       example: 3
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         limit:
+ *                           type: integer
+ *                           example: 50
+ *                         nextCursor:
+ *                           type: string
+ *                           nullable: true
+ *                           description: Pass as `before` to load older messages
+ *                           example: 507f1f77bcf86cd799439013
+ *                         prevCursor:
+ *                           type: string
+ *                           nullable: true
+ *                           description: Pass as `after` to load newer messages
+ *                           example: null
+ *                         hasOlder:
+ *                           type: boolean
+ *                           example: true
+ *                         hasNewer:
+ *                           type: boolean
+ *                           example: false
  *       400:
- *         description: Invalid friend ID
+ *         description: Invalid friend ID or cursor
  *       401:
  *         description: Unauthorized
  *       403:
  *         description: Not friends
+ *       404:
+ *         description: Cursor message not found in this conversation
  *       500:
  *         description: Failed to retrieve messages
  */
@@ -118,7 +453,8 @@ router.use(authenticate);
  * @swagger
  * /api/messages/send:
  *   post:
- *     summary: Send a message to a friend
+ *     summary: Send a message to a friend or a group
+ *     description: Give either `receiverId` for a direct message or `conversationId` for a group you are a member of. Group messages have no `receiver`; their `status`, `deliveredTo` and `readBy` come from each member's receipts.
  *     tags: [Messages]
  *     security:
  *       - bearerAuth: []
@@ -128,21 +464,37 @@ router.use(authenticate);
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - receiverId
- *               - content
  *             properties:
  *               receiverId:
  *                 type: string
  *                 example: 507f1f77bcf86cd799439011
+ *               conversationId:
+ *                 type: string
+ *                 description: Send to this group instead of a friend. Group messages cannot be scheduled.
+ *                 example: 507f1f77bcf86cd799439030
  *               content:
  *                 type: string
+ *                 description: Required for text messages; an optional caption when sending an attachment
  *                 example: Hello! How are you doing?
  *               messageType:
  *                 type: string
  *                 enum: [text, image, file]
  *                 default: text
+ *                 description: Ignored when an attachment is sent; the type then follows the uploaded file
  *                 example: text
+ *               replyTo:
+ *                 type: string
+ *                 description: ID of an earlier message in the same conversation to quote
+ *                 example: 507f1f77bcf86cd799439012
+ *               attachmentId:
+ *                 type: string
+ *                 description: ID returned by `POST /api/attachments`. Each upload can be sent once.
+ *                 example: 507f1f77bcf86cd799439020
+ *               sendAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Schedule the message instead of sending it now (at most MESSAGE_SCHEDULE_MAX_DAYS ahead). The response is then `201` with `data.scheduledMessage` (see `GET /api/messages/scheduled`).
+ *                 example: 2025-03-14T08:00:00.000Z
  *     responses:
  *       201:
  *         description: Message sent successfully
@@ -199,6 +551,19 @@ router.use(authenticate);
  *                         status:
  *                           type: string
  *                           example: sent
+ *                         replyTo:
+ *                           $ref: '#/components/schemas/ReplyPreview'
+ *                         attachment:
+ *                           $ref: '#/components/schemas/Attachment'
+ *                         forwardedFrom:
+ *                           $ref: '#/components/schemas/ForwardOrigin'
+ *                         linkPreview:
+ *                           $ref: '#/components/schemas/LinkPreview'
+ *                         expiresAt:
+ *                           type: string
+ *                           format: date-time
+ *                           nullable: true
+ *                           description: Set when the conversation has a disappearing-messages timer
  *                         createdAt:
  *                           type: string
  *                           format: date-time
@@ -209,32 +574,938 @@ router.use(authenticate);
  *         description: Unauthorized
  *       403:
  *         description: Not friends
+ *       404:
+ *         description: Attachment not found or already sent
+ *       429:
+ *         description: Too many scheduled messages
  *       500:
  *         description: Failed to send message
  */
 
-// ============================================
-// ROUTES
-// ============================================
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ScheduledMessage:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439030
+ *         sender:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439010
+ *         receiver:
+ *           type: object
+ *           properties:
+ *             _id:
+ *               type: string
+ *               example: 507f1f77bcf86cd799439011
+ *             username:
+ *               type: string
+ *               example: jane_smith
+ *             avatar:
+ *               type: string
+ *               example: https://api.dicebear.com/7.x/avataaars/svg?seed=jane_smith
+ *         content:
+ *           type: string
+ *           example: Happy birthday! 🎂
+ *         messageType:
+ *           type: string
+ *           enum: [text, image, file]
+ *           example: text
+ *         replyTo:
+ *           type: string
+ *           nullable: true
+ *         attachment:
+ *           $ref: '#/components/schemas/Attachment'
+ *         sendAt:
+ *           type: string
+ *           format: date-time
+ *           example: 2025-03-14T08:00:00.000Z
+ *         status:
+ *           type: string
+ *           enum: [pending, processing, failed]
+ *           example: pending
+ *         failureReason:
+ *           type: string
+ *           description: Why a failed message could not be sent
+ *           example: You can only send messages to friends
+ */
 
-router.get('/:friendId', getMessages);
+/**
+ * @swagger
+ * /api/messages/scheduled:
+ *   get:
+ *     summary: List your scheduled messages
+ *     description: Messages scheduled with `sendAt`, soonest first. When one is due it is sent like any other message; you then get a `scheduled_message_sent` socket event, or `scheduled_message_failed` if it could no longer be sent (for example because the friendship ended).
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, failed]
+ *           default: pending
+ *         description: Pending messages (including ones being sent right now) or ones that failed to send
+ *       - in: query
+ *         name: receiverId
+ *         schema:
+ *           type: string
+ *         description: Only messages to this friend
+ *     responses:
+ *       200:
+ *         description: Scheduled messages retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Scheduled messages retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     scheduledMessages:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ScheduledMessage'
+ *       400:
+ *         description: Invalid status or receiver ID
+ *       401:
+ *         description: Unauthorized
+ */
 
-router.post(
-  '/send',
-  [
-    body('receiverId')
-      .notEmpty()
-      .withMessage('Receiver ID is required'),
-    body('content')
-      .trim()
-      .notEmpty()
-      .withMessage('Message content is required'),
-    body('messageType')
-      .optional()
-      .isIn(['text', 'image', 'file'])
-      .withMessage('Invalid message type'),
-  ],
-  sendMessage
-);
+/**
+ * @swagger
+ * /api/messages/scheduled/{scheduledMessageId}:
+ *   patch:
+ *     summary: Edit a pending scheduled message
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: scheduledMessageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439030
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 example: Happy birthday!! 🎉
+ *               sendAt:
+ *                 type: string
+ *                 format: date-time
+ *                 example: 2025-03-14T09:00:00.000Z
+ *     responses:
+ *       200:
+ *         description: Scheduled message updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Scheduled message updated successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     scheduledMessage:
+ *                       $ref: '#/components/schemas/ScheduledMessage'
+ *       400:
+ *         description: Nothing to change, empty content or invalid sendAt
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Scheduled message not found or no longer pending
+ *       409:
+ *         description: The message is already being sent
+ *   delete:
+ *     summary: Cancel a scheduled message
+ *     description: Cancels a pending message, or dismisses one that failed to send.
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: scheduledMessageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439030
+ *     responses:
+ *       200:
+ *         description: Scheduled message cancelled successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Scheduled message not found or already sent
+ *       409:
+ *         description: The message is already being sent
+ */
+
+/**
+ * @swagger
+ * /api/messages/{friendId}/disappearing:
+ *   put:
+ *     summary: Set the disappearing-messages timer of a conversation
+ *     description: Either friend can change it. Messages sent afterwards get an `expiresAt` and are deleted when it passes; both participants then get a `messages_expired` socket event. Each change is announced in the conversation by a `system` message, and both participants get a `disappearing_timer_changed` event.
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: friendId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439011
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - timer
+ *             properties:
+ *               timer:
+ *                 type: string
+ *                 enum: ['off', 1h, 24h, 7d]
+ *                 example: 24h
+ *     responses:
+ *       200:
+ *         description: Disappearing messages updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Disappearing messages updated successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     disappearingTimer:
+ *                       type: string
+ *                       example: 24h
+ *                     message:
+ *                       type: object
+ *                       nullable: true
+ *                       description: The system message announcing the change; null if the timer already had this value
+ *       400:
+ *         description: Invalid friend ID or timer
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not friends
+ */
+
+/**
+ * @swagger
+ * /api/messages/{friendId}/read:
+ *   post:
+ *     summary: Mark messages from a friend read up to a message
+ *     description: Marks every message the friend sent you up to and including `messageId` as read in one update. `messageId` can be any message of the conversation, your own included. The friend receives one `messages_read` socket event when anything changed.
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: friendId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439011
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - messageId
+ *             properties:
+ *               messageId:
+ *                 type: string
+ *                 description: The last message you have read
+ *                 example: 507f1f77bcf86cd799439013
+ *     responses:
+ *       200:
+ *         description: Messages marked as read
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Messages marked as read
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     friendId:
+ *                       type: string
+ *                       example: 507f1f77bcf86cd799439011
+ *                     lastReadMessageId:
+ *                       type: string
+ *                       example: 507f1f77bcf86cd799439013
+ *                     readAt:
+ *                       type: string
+ *                       format: date-time
+ *                       description: Send time of the last read message
+ *                       example: 2024-12-24T12:30:00.000Z
+ *                     readCount:
+ *                       type: integer
+ *                       description: Messages this request marked read
+ *                       example: 3
+ *                     unreadCount:
+ *                       type: integer
+ *                       description: Messages from the friend still unread
+ *                       example: 0
+ *       400:
+ *         description: Invalid friend or message ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not friends
+ *       404:
+ *         description: Message not found in this conversation
+ */
+
+/**
+ * @swagger
+ * /api/messages/{friendId}/pins:
+ *   get:
+ *     summary: Get the pinned messages of a conversation
+ *     description: Most recently pinned first. Pins of messages you deleted for yourself are left out.
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: friendId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439011
+ *     responses:
+ *       200:
+ *         description: Pinned messages retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Pinned messages retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     pins:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           message:
+ *                             type: object
+ *                             description: Same shape as the messages of `GET /api/messages/{friendId}`
+ *                           pinnedBy:
+ *                             type: string
+ *                             example: 507f1f77bcf86cd799439010
+ *                           pinnedAt:
+ *                             type: string
+ *                             format: date-time
+ *                             example: 2024-12-24T12:35:00.000Z
+ *       400:
+ *         description: Invalid friend ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not friends
+ */
+
+/**
+ * @swagger
+ * /api/messages/{messageId}/pin:
+ *   post:
+ *     summary: Pin a message to the top of the conversation
+ *     description: Either participant can pin, up to MESSAGE_MAX_PINS messages per conversation. Pinning an already pinned message has no effect. Both participants receive a `pins_updated` socket event.
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439013
+ *     responses:
+ *       200:
+ *         description: Message pinned
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Message pinned
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     messageId:
+ *                       type: string
+ *                       example: 507f1f77bcf86cd799439013
+ *                     pinnedAt:
+ *                       type: string
+ *                       format: date-time
+ *                       example: 2024-12-24T12:35:00.000Z
+ *       400:
+ *         description: Invalid message ID, or a deleted or system message
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not friends
+ *       404:
+ *         description: Message not found
+ *       409:
+ *         description: The conversation already has the maximum number of pins
+ *   delete:
+ *     summary: Unpin a message
+ *     description: Either participant can unpin. Both participants receive a `pins_updated` socket event.
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439013
+ *     responses:
+ *       200:
+ *         description: Message unpinned
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not friends
+ *       404:
+ *         description: Message not found
+ */
+
+/**
+ * @swagger
+ * /api/messages/forward:
+ *   post:
+ *     summary: Forward messages to other friends
+ *     description: Copies messages you can see, text or attachments, into your conversations with each receiver, oldest first, marked with `forwardedFrom`. Every receiver must be an accepted friend, as for a normal send; receivers that fail are listed in `failed` and get none of the messages, so they can be retried without duplicates, while the rest still get them. Online receivers get a `receive_message` socket event per message.
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - messageIds
+ *               - receiverIds
+ *             properties:
+ *               messageIds:
+ *                 type: array
+ *                 maxItems: 20
+ *                 items:
+ *                   type: string
+ *                 example: [507f1f77bcf86cd799439013]
+ *               receiverIds:
+ *                 type: array
+ *                 maxItems: 10
+ *                 items:
+ *                   type: string
+ *                 example: [507f1f77bcf86cd799439015, 507f1f77bcf86cd799439016]
+ *     responses:
+ *       201:
+ *         description: Messages forwarded to at least one receiver
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Messages forwarded successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     messages:
+ *                       type: array
+ *                       description: The new messages, same shape as in `POST /api/messages/send`
+ *                       items:
+ *                         type: object
+ *                     failed:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           receiverId:
+ *                             type: string
+ *                             example: 507f1f77bcf86cd799439016
+ *                           error:
+ *                             type: string
+ *                             example: You can only send messages to friends
+ *                           statusCode:
+ *                             type: integer
+ *                             example: 403
+ *       400:
+ *         description: Invalid IDs, or a message was deleted for everyone
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: No receiver is a friend
+ *       404:
+ *         description: A message does not exist or is not visible to you
+ */
+
+/**
+ * @swagger
+ * /api/messages/{messageId}:
+ *   patch:
+ *     summary: Edit a sent text message
+ *     description: Only the sender can edit, and only within MESSAGE_EDIT_WINDOW_MINUTES of sending. The previous content is kept in the edit history, and both participants receive a `message_edited` socket event.
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439013
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 example: Hello! How are you doing today?
+ *     responses:
+ *       200:
+ *         description: Message updated successfully (the message now has an `editedAt` timestamp)
+ *       400:
+ *         description: Invalid message ID, empty content or not a text message
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the sender, or the edit window has expired
+ *       404:
+ *         description: Message not found
+ *       409:
+ *         description: The message was edited concurrently
+ *       500:
+ *         description: Failed to edit message
+ */
+
+/**
+ * @swagger
+ * /api/messages/{messageId}/history:
+ *   get:
+ *     summary: Get the edit history of a message
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439013
+ *     responses:
+ *       200:
+ *         description: Message history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Message history retrieved successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     messageId:
+ *                       type: string
+ *                       example: 507f1f77bcf86cd799439013
+ *                     content:
+ *                       type: string
+ *                       example: Hello! How are you doing today?
+ *                     editedAt:
+ *                       type: string
+ *                       format: date-time
+ *                       nullable: true
+ *                       example: 2024-12-24T12:32:00.000Z
+ *                     revisions:
+ *                       type: array
+ *                       description: Previous contents, oldest first
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           content:
+ *                             type: string
+ *                             example: Hello! How are you?
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *                             example: 2024-12-24T12:30:00.000Z
+ *       400:
+ *         description: Invalid message ID
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Message not found
+ *       500:
+ *         description: Failed to retrieve message history
+ */
+
+/**
+ * @swagger
+ * /api/messages/{messageId}:
+ *   delete:
+ *     summary: Delete a message for yourself or for everyone
+ *     description: |
+ *       `scope=me` hides the message from your own history and chat list.
+ *       `scope=everyone` is only allowed for the sender within MESSAGE_DELETE_WINDOW_MINUTES of sending; the content is replaced with a tombstone ("This message was deleted", `deletedAt` set) and both participants receive a `message_deleted` socket event.
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439013
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *           enum: [me, everyone]
+ *           default: me
+ *     responses:
+ *       200:
+ *         description: Message deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Message deleted for everyone
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     messageId:
+ *                       type: string
+ *                       example: 507f1f77bcf86cd799439013
+ *                     scope:
+ *                       type: string
+ *                       example: everyone
+ *       400:
+ *         description: Invalid message ID or scope
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not the sender, or the delete window has expired
+ *       404:
+ *         description: Message not found
+ *       500:
+ *         description: Failed to delete message
+ */
+
+/**
+ * @swagger
+ * /api/messages/{messageId}/reactions:
+ *   post:
+ *     summary: React to a message with an emoji
+ *     description: A user can react with several emoji but only once per emoji; repeating a reaction is a no-op. Both participants receive a `reaction_updated` socket event.
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439013
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - emoji
+ *             properties:
+ *               emoji:
+ *                 type: string
+ *                 example: 👍
+ *     responses:
+ *       200:
+ *         description: Reaction added
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Reaction added
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     messageId:
+ *                       type: string
+ *                       example: 507f1f77bcf86cd799439013
+ *                     reactions:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ReactionSummary'
+ *       400:
+ *         description: Invalid message ID or emoji, or the message was deleted
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Message not found
+ *       500:
+ *         description: Failed to add reaction
+ */
+
+/**
+ * @swagger
+ * /api/messages/{messageId}/reactions/{emoji}:
+ *   delete:
+ *     summary: Remove your emoji reaction from a message
+ *     tags: [Messages]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 507f1f77bcf86cd799439013
+ *       - in: path
+ *         name: emoji
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: "%F0%9F%91%8D"
+ *         description: URL-encoded emoji
+ *     responses:
+ *       200:
+ *         description: Reaction removed
+ *       400:
+ *         description: Invalid message ID or emoji, or the message was deleted
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Message not found
+ *       500:
+ *         description: Failed to remove reaction
+ */
+
+// ============================================
+// ROUTES
+// ============================================
+
+// Must come before '/:friendId'.
+router.get('/search', searchMessages);
+router.get('/scheduled', getScheduledMessages);
+
+router.get('/:friendId', getMessages);
+
+router.post(
+  '/send',
+  [
+    body('receiverId')
+      .if(body('conversationId').not().exists({ values: 'falsy' }))
+      .notEmpty()
+      .withMessage('Receiver ID is required'),
+    body('conversationId')
+      .optional({ values: 'null' })
+      .isMongoId()
+      .withMessage('Invalid conversation ID'),
+    body('content')
+      .if(body('attachmentId').not().exists({ values: 'falsy' }))
+      .trim()
+      .notEmpty()
+      .withMessage('Message content is required'),
+    body('messageType')
+      .optional()
+      .isIn(['text', 'image', 'file'])
+      .withMessage('Invalid message type'),
+    body('replyTo')
+      .optional({ values: 'null' })
+      .isMongoId()
+      .withMessage('Invalid reply message ID'),
+    body('attachmentId')
+      .optional({ values: 'null' })
+      .isMongoId()
+      .withMessage('Invalid attachment ID'),
+    body('sendAt')
+      .optional({ values: 'null' })
+      .isISO8601()
+      .withMessage('sendAt must be an ISO 8601 date'),
+  ],
+  sendMessage
+);
+
+router.patch(
+  '/scheduled/:scheduledMessageId',
+  [
+    body('content')
+      .optional()
+      .isString()
+      .withMessage('Content must be a string'),
+    body('sendAt')
+      .optional()
+      .isISO8601()
+      .withMessage('sendAt must be an ISO 8601 date'),
+  ],
+  updateScheduledMessage
+);
+
+router.delete('/scheduled/:scheduledMessageId', removeScheduledMessage);
+
+router.post(
+  '/forward',
+  [
+    body('messageIds')
+      .isArray({ min: 1, max: 20 })
+      .withMessage('Provide between 1 and 20 message IDs'),
+    body('messageIds.*')
+      .isMongoId()
+      .withMessage('Invalid message ID'),
+    body('receiverIds')
+      .isArray({ min: 1, max: 10 })
+      .withMessage('Provide between 1 and 10 receiver IDs'),
+    body('receiverIds.*')
+      .isMongoId()
+      .withMessage('Invalid receiver ID'),
+  ],
+  forwardMessage
+);
+
+router.put(
+  '/:friendId/disappearing',
+  [
+    body('timer')
+      .isIn(['off', '1h', '24h', '7d'])
+      .withMessage('Timer must be one of off, 1h, 24h, 7d'),
+  ],
+  updateDisappearingTimer
+);
+
+router.post(
+  '/:friendId/read',
+  [
+    body('messageId')
+      .isMongoId()
+      .withMessage('Invalid message ID'),
+  ],
+  readMessages
+);
+
+router.get('/:friendId/pins', getPins);
+
+router.get('/:messageId/history', getMessageHistory);
+
+router.post('/:messageId/pin', pinMessage);
+
+router.delete('/:messageId/pin', unpinMessage);
+
+router.post(
+  '/:messageId/reactions',
+  [
+    body('emoji')
+      .isString()
+      .notEmpty()
+      .withMessage('Emoji is required'),
+  ],
+  addReaction
+);
+
+router.delete('/:messageId/reactions/:emoji', removeReaction);
+
+router.patch(
+  '/:messageId',
+  [
+    body('content')
+      .trim()
+      .notEmpty()
+      .withMessage('Message content is required'),
+  ],
+  updateMessage
+);
+
+router.delete('/:messageId', removeMessage);
 
 export default router;
@@ -0,0 +1,209 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import {
+  getProviders,
+  startOidcLogin,
+  startOidcLink,
+  oidcCallback,
+  unlinkProvider,
+} from '../controllers/oidcController';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/auth/oidc/providers:
+ *   get:
+ *     summary: List configured external identity providers
+ *     tags: [Authentication]
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: Identity providers retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     providers:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             example: google
+ *                           name:
+ *                             type: string
+ *                             example: Google
+ */
+
+/**
+ * @swagger
+ * /api/auth/oidc/{provider}/authorize:
+ *   get:
+ *     summary: Start an OpenID Connect sign-in
+ *     description: Returns the provider URL to redirect the browser to (authorization code flow with PKCE). After the user signs in, the provider redirects to the configured redirect URI with `code` and `state`, which the client posts to the callback endpoint.
+ *     tags: [Authentication]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: google
+ *     responses:
+ *       200:
+ *         description: Authorization URL created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     authorizationUrl:
+ *                       type: string
+ *                       example: https://accounts.example.com/authorize?response_type=code&client_id=clashchat&code_challenge_method=S256
+ *                     state:
+ *                       type: string
+ *                       example: 4c1f0d9e7b2a...
+ *       404:
+ *         description: Provider not found
+ *       502:
+ *         description: Identity provider unreachable
+ */
+
+/**
+ * @swagger
+ * /api/auth/oidc/{provider}/callback:
+ *   post:
+ *     summary: Finish an OpenID Connect sign-in or provider link
+ *     description: Signs in the account linked to the external identity, or the account with the same email if that account has verified it, creating one if no account uses the email. Responds like `POST /api/auth/login`. For link requests the identity is added to the user who started the link instead.
+ *     tags: [Authentication]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: google
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - state
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: SplxlOBeZQQYbYS6WxSbIA
+ *               state:
+ *                 type: string
+ *                 example: 4c1f0d9e7b2a...
+ *               deviceName:
+ *                 type: string
+ *                 example: John's laptop
+ *     responses:
+ *       200:
+ *         description: Login successful or provider linked
+ *       400:
+ *         description: Invalid state, invalid ID token or no verified email
+ *       404:
+ *         description: Provider not found
+ *       409:
+ *         description: Identity already linked to another user, or an account with an unverified address uses the email
+ *       502:
+ *         description: Identity provider error
+ */
+
+/**
+ * @swagger
+ * /api/auth/oidc/{provider}/link:
+ *   post:
+ *     summary: Start linking an identity provider to the current account
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: google
+ *     responses:
+ *       200:
+ *         description: Authorization URL created
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Provider not found
+ */
+
+/**
+ * @swagger
+ * /api/auth/oidc/{provider}:
+ *   delete:
+ *     summary: Unlink an identity provider from the current account
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: google
+ *     responses:
+ *       200:
+ *         description: Identity provider unlinked
+ *       400:
+ *         description: Cannot unlink the last sign-in method
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Provider not linked
+ */
+
+// ============================================
+// ROUTES
+// ============================================
+
+router.get('/providers', getProviders);
+router.get('/:provider/authorize', startOidcLogin);
+router.post(
+  '/:provider/callback',
+  [
+    body('code')
+      .isString()
+      .notEmpty()
+      .withMessage('Authorization code is required'),
+    body('state')
+      .isString()
+      .notEmpty()
+      .withMessage('State is required'),
+  ],
+  oidcCallback
+);
+router.post('/:provider/link', authenticate, startOidcLink);
+router.delete('/:provider', authenticate, unlinkProvider);
+
+export default router;
@@ -11,11 +11,18 @@ import { connectDatabase } from './config/database';
 import { swaggerSpec } from './config/swagger';
 import { setupSocketHandlers } from './socket/socketHandler';
 import { errorHandler, notFound } from './middleware/errorHandler';
+import { startAccountDeletionJob } from './jobs/accountDeletion';
+import { startAttachmentCleanupJob } from './jobs/attachmentCleanup';
+import { startScheduledMessageJob } from './jobs/scheduledMessages';
+import { startMessageExpiryJob } from './jobs/messageExpiry';
 
 import authRoutes from './routes/authRoutes';
+import oidcRoutes from './routes/oidcRoutes';
 import friendRoutes from './routes/friendRoutes';
 import messageRoutes from './routes/messageRoutes';
 import chatRoutes from './routes/chatRoutes';
+import attachmentRoutes from './routes/attachmentRoutes';
+import conversationRoutes from './routes/conversationRoutes';
 
 dotenv.config();
 
@@ -43,6 +50,15 @@ const io = new Server(httpServer, {
 
 const PORT = process.env.PORT || 5000;
 
+// Needed behind a reverse proxy so req.ip (used for rate limiting) is the client address
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set(
+    'trust proxy',
+    /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === 'true' ? true : trustProxy
+  );
+}
+
 app.use(helmet());
 app.use(cors({
   origin: allowedOrigins,
@@ -66,10 +82,13 @@ app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
   customSiteTitle: 'ClashChat API Documentation',
 }));
 
+app.use('/api/auth/oidc', oidcRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/friends', friendRoutes);
 app.use('/api/messages', messageRoutes);
 app.use('/api/chats', chatRoutes);
+app.use('/api/attachments', attachmentRoutes);
+app.use('/api/conversations', conversationRoutes);
 
 
 app.use(notFound);
@@ -79,6 +98,10 @@ const startServer = async (): Promise<void> => {
   try {
     await connectDatabase();
     setupSocketHandlers(io);
+    startAccountDeletionJob();
+    startAttachmentCleanupJob();
+    startScheduledMessageJob();
+    startMessageExpiryJob();
 
     httpServer.listen(PORT, () => {
       console.log(`
@@ -0,0 +1,22 @@
+import { Server } from "socket.io";
+
+let io: Server | null = null;
+
+export const userRoom = (userId: string): string => `user:${userId}`;
+
+export const setSocketServer = (server: Server): void => {
+  io = server;
+};
+
+/**
+ * Emits to every connected device of a user. Lets HTTP controllers push the
+ * same live events as the socket handlers; a no-op before the socket server
+ * is set up.
+ */
+export const emitToUser = (userId: string, event: string, payload: unknown): void => {
+  io?.to(userRoom(userId)).emit(event, payload);
+};
+
+/** Whether the user has at least one socket connected to this instance. */
+export const isUserOnline = (userId: string): boolean =>
+  (io?.sockets.adapter.rooms.get(userRoom(userId))?.size ?? 0) > 0;
@@ -3,6 +3,29 @@ import { verifyAccessToken } from "../utils/jwt";
 import { User } from "../models/User";
 import { Message } from "../models/Message";
 import { Friendship } from "../models/Friendship";
+import { authConfig } from "../config/auth";
+import { assertAccessTokenActive } from "../utils/accessTokens";
+import { onTokensRevoked } from "../utils/authEvents";
+import { setSocketServer, userRoom, emitToUser } from "./emitter";
+import {
+  MessageError,
+  createMessage,
+  deliverMessage,
+  forwardMessages,
+  markMessagesRead,
+  refreshLinkPreview,
+  serializeMessages,
+  editMessage,
+  deleteMessage,
+  emitToParticipants,
+  reactToMessage,
+  emitReactionUpdate,
+  ReactionAction,
+} from "../utils/messageHelper";
+import { scheduleMessage, serializeScheduledMessages } from "../utils/scheduledMessageHelper";
+import { setDisappearingTimer, emitDisappearingTimerChange } from "../utils/disappearingMessages";
+import { changePin, emitPinUpdate, PinAction } from "../utils/pinnedMessages";
+import { loadGroup, markConversationRead } from "../utils/groupConversations";
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
@@ -11,6 +34,27 @@ interface AuthenticatedSocket extends Socket {
 const onlineUsers = new Map<string, string>();
 
 export const setupSocketHandlers = (io: Server): void => {
+  setSocketServer(io);
+
+  // Drop live connections whose token was revoked after the handshake.
+  onTokensRevoked(async ({ userId, jti, sessionId, reason }) => {
+    try {
+      const sockets = await io.in(userRoom(userId)).fetchSockets();
+      sockets
+        .filter((s) => {
+          if (jti) return s.data.tokenJti === jti;
+          if (sessionId) return s.data.sessionId === sessionId;
+          return true;
+        })
+        .forEach((s) => {
+          s.emit("session_revoked", { reason });
+          s.disconnect(true);
+        });
+    } catch (error) {
+      console.error("Force disconnect error:", error);
+    }
+  });
+
   io.use(async (socket: AuthenticatedSocket, next) => {
     try {
       const token =
@@ -22,8 +66,27 @@ export const setupSocketHandlers = (io: Server): void => {
         return next(new Error("Authentication error: No token provided"));
       }
 
+      // Rejects MFA-pending tokens, which are issued before the second factor.
       const decoded = verifyAccessToken(token);
+
+      const user = await User.findById(decoded.userId).select("emailVerified tokenVersion");
+      if (!user) {
+        console.error("Socket authentication failed: User not found");
+        return next(new Error("Authentication error: User not found"));
+      }
+
+      await assertAccessTokenActive(decoded, user);
+
+      if (authConfig.requireEmailVerification && !user.emailVerified) {
+        console.error(
+          `Socket authentication failed: Email not verified for user ${decoded.userId}`
+        );
+        return next(new Error("Authentication error: Email not verified"));
+      }
+
       socket.userId = decoded.userId;
+      socket.data.tokenJti = decoded.jti;
+      socket.data.sessionId = decoded.sessionId;
       console.log(
         `Socket authentication successful for user: ${decoded.userId}`
       );
@@ -50,6 +113,7 @@ export const setupSocketHandlers = (io: Server): void => {
     console.log(`User connected: ${userId}`);
 
     onlineUsers.set(userId, socket.id);
+    socket.join(userRoom(userId));
 
     await User.findByIdAndUpdate(userId, { status: "online" });
 
@@ -76,9 +140,13 @@ export const setupSocketHandlers = (io: Server): void => {
     socket.on(
       "send_message",
       async (data: {
-        receiverId: string;
+        receiverId?: string;
+        conversationId?: string;
         content: string;
         messageType?: "text" | "image" | "file";
+        replyTo?: string;
+        attachmentId?: string;
+        sendAt?: string;
       }) => {
         console.log(
           "------send_message--------",
@@ -88,57 +156,150 @@ export const setupSocketHandlers = (io: Server): void => {
         );
         console.log("-------userId (sender)-------", userId);
         try {
-          const { receiverId, content, messageType = "text" } = data;
-
-          if (userId === receiverId) {
-            socket.emit("error", {
-              message: "Cannot send message to yourself",
-            });
-            console.error(
-              "User attempted to send message to themselves:",
-              userId
-            );
+          const input = {
+            senderId: userId,
+            receiverId: data?.receiverId,
+            conversationId: data?.conversationId,
+            content: data?.content,
+            messageType: data?.messageType,
+            replyTo: data?.replyTo,
+            attachmentId: data?.attachmentId,
+          };
+
+          if (data?.sendAt !== undefined && data?.sendAt !== null) {
+            const scheduled = await scheduleMessage({ ...input, sendAt: data.sendAt });
+            const [scheduledPayload] = await serializeScheduledMessages([scheduled]);
+            socket.emit("message_scheduled", scheduledPayload);
             return;
           }
 
-          const friendship = await Friendship.findOne({
-            $or: [
-              { requester: userId, recipient: receiverId },
-              { requester: receiverId, recipient: userId },
-            ],
-            status: "accepted",
+          const message = await createMessage(input);
+
+          const payload = await deliverMessage(message);
+
+          socket.emit("message_sent", payload);
+        } catch (error) {
+          console.error("Send message error:", error);
+          socket.emit("error", {
+            message: error instanceof MessageError ? error.message : "Failed to send message",
           });
+        }
+      }
+    );
 
-          if (!friendship) {
-            socket.emit("error", { message: "Not friends with this user" });
-            return;
+    socket.on(
+      "forward_message",
+      async (data: { messageIds: string[]; receiverIds: string[] }) => {
+        try {
+          const { messages, failed } = await forwardMessages(
+            userId,
+            data?.messageIds,
+            data?.receiverIds
+          );
+
+          const payload = [];
+          for (const message of messages) {
+            payload.push(await deliverMessage(message));
           }
 
-          const message = await Message.create({
-            sender: userId,
-            receiver: receiverId,
-            content,
-            messageType,
-            status: "sent",
+          socket.emit("messages_forwarded", { messages: payload, failed });
+        } catch (error) {
+          console.error("Forward message error:", error);
+          socket.emit("error", {
+            message: error instanceof MessageError ? error.message : "Failed to forward messages",
+          });
+        }
+      }
+    );
+
+    socket.on(
+      "edit_message",
+      async (data: { messageId: string; content: string }) => {
+        try {
+          const message = await editMessage(userId, data?.messageId, data?.content);
+
+          const [payload] = await serializeMessages([message]);
+          await emitToParticipants(message, "message_edited", payload);
+          refreshLinkPreview(message);
+        } catch (error) {
+          console.error("Edit message error:", error);
+          socket.emit("error", {
+            message: error instanceof MessageError ? error.message : "Failed to edit message",
           });
+        }
+      }
+    );
 
-          await message.populate("sender receiver", "username avatar");
+    socket.on(
+      "delete_message",
+      async (data: { messageId: string; scope?: "me" | "everyone" }) => {
+        try {
+          const { message, scope } = await deleteMessage(userId, data?.messageId, data?.scope);
 
-          const receiverSocketId = onlineUsers.get(receiverId);
-          if (receiverSocketId) {
-            message.status = "delivered";
-            await message.save();
-            io.to(receiverSocketId).emit("receive_message", message);
+          const payload = { messageId: message._id, scope };
+          if (scope === "everyone") {
+            await emitToParticipants(message, "message_deleted", payload);
+          } else {
+            emitToUser(userId, "message_deleted", payload);
           }
+        } catch (error) {
+          console.error("Delete message error:", error);
+          socket.emit("error", {
+            message: error instanceof MessageError ? error.message : "Failed to delete message",
+          });
+        }
+      }
+    );
 
-          socket.emit("message_sent", message);
+    socket.on(
+      "set_disappearing_timer",
+      async (data: { friendId: string; timer: "off" | "1h" | "24h" | "7d" }) => {
+        try {
+          const message = await setDisappearingTimer(userId, data?.friendId, data?.timer);
+          if (message) {
+            const payload = await deliverMessage(message);
+            emitDisappearingTimerChange(message, payload);
+          }
         } catch (error) {
-          console.error("Send message error:", error);
-          socket.emit("error", { message: "Failed to send message" });
+          console.error("Set disappearing timer error:", error);
+          socket.emit("error", {
+            message: error instanceof MessageError ? error.message : "Failed to update disappearing messages",
+          });
         }
       }
     );
 
+    const handleReaction =
+      (action: ReactionAction) => async (data: { messageId: string; emoji: string }) => {
+        try {
+          const message = await reactToMessage(userId, data?.messageId, data?.emoji, action);
+          await emitReactionUpdate(message, { userId, emoji: data.emoji, action });
+        } catch (error) {
+          console.error("Message reaction error:", error);
+          socket.emit("error", {
+            message: error instanceof MessageError ? error.message : "Failed to update reaction",
+          });
+        }
+      };
+
+    socket.on("add_reaction", handleReaction("add"));
+    socket.on("remove_reaction", handleReaction("remove"));
+
+    const handlePin = (action: PinAction) => async (data: { messageId: string }) => {
+      try {
+        const { message, pin } = await changePin(userId, data?.messageId, action);
+        emitPinUpdate(message, { userId, action, pin });
+      } catch (error) {
+        console.error("Message pin error:", error);
+        socket.emit("error", {
+          message: error instanceof MessageError ? error.message : "Failed to update pin",
+        });
+      }
+    };
+
+    socket.on("pin_message", handlePin("pin"));
+    socket.on("unpin_message", handlePin("unpin"));
+
     socket.on("typing", (data: { receiverId: string }) => {
       console.log("------typing--------", data);
       const receiverSocketId = onlineUsers.get(data.receiverId);
@@ -155,23 +316,45 @@ export const setupSocketHandlers = (io: Server): void => {
       }
     });
 
+    // Marks everything the friend sent up to the given message as read.
+    socket.on("messages_read", async (data: { friendId: string; messageId: string }) => {
+      try {
+        await markMessagesRead(userId, data?.friendId, data?.messageId);
+      } catch (error) {
+        console.error("Messages read error:", error);
+        socket.emit("error", {
+          message: error instanceof MessageError ? error.message : "Failed to mark messages as read",
+        });
+      }
+    });
+
+    // Deprecated: older clients acknowledge one received message at a time.
+    // Treated as `messages_read` up to that message.
     socket.on("message_read", async (data: { messageId: string }) => {
-      console.log("------message_read--------", data);
       try {
-        const message = await Message.findById(data.messageId);
-        if (message && message.receiver.toString() === userId) {
-          message.status = "read";
-          await message.save();
-
-          const senderSocketId = onlineUsers.get(message.sender.toString());
-          if (senderSocketId) {
-            io.to(senderSocketId).emit("message_read", {
-              messageId: data.messageId,
-            });
-          }
+        const message = await Message.findOne({ _id: data?.messageId, receiver: userId }).select("sender");
+        if (!message) {
+          throw new MessageError("Message not found");
         }
+        await markMessagesRead(userId, message.sender.toString(), data.messageId);
       } catch (error) {
         console.error("Message read error:", error);
+        socket.emit("error", {
+          message: error instanceof MessageError ? error.message : "Failed to mark messages as read",
+        });
+      }
+    });
+
+    // Group chats keep a read watermark per member instead of per-message status.
+    socket.on("conversation_read", async (data: { conversationId: string; messageId?: string }) => {
+      try {
+        const conversation = await loadGroup(data?.conversationId, userId);
+        await markConversationRead(userId, conversation, data?.messageId);
+      } catch (error) {
+        console.error("Conversation read error:", error);
+        socket.emit("error", {
+          message: error instanceof MessageError ? error.message : "Failed to mark conversation as read",
+        });
       }
     });
 
@@ -7,7 +7,9 @@ export interface IUser extends Document {
   avatar?: string;
   status: 'online' | 'offline' | 'away';
   lastSeen: Date;
-  refreshToken?: string;
+  emailVerified: boolean;
+  mfaEnabled: boolean;
+  tokenVersion: number;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -18,6 +20,9 @@ declare global {
     interface Request {
       user?: IUser;
       userId?: string;
+      sessionId?: string;
+      tokenJti?: string;
+      tokenExpiresAt?: Date;
     }
   }
 }
@@ -0,0 +1,62 @@
+import jwt from 'jsonwebtoken';
+import { IUser } from '../models/User';
+import { TokenPayload } from './jwt';
+import { getRevocationStore } from './revocationStore';
+import { emitTokensRevoked } from './authEvents';
+
+const sessionKey = (sessionId: string): string => `session:${sessionId}`;
+
+/**
+ * Throws a `JsonWebTokenError` when a signature-valid access token has been
+ * revoked, either individually, through its session, or by a token version
+ * bump on the user ("log out everywhere", password changes).
+ */
+export const assertAccessTokenActive = async (
+  decoded: TokenPayload,
+  user: IUser
+): Promise<void> => {
+  if ((decoded.tokenVersion ?? 0) !== (user.tokenVersion ?? 0)) {
+    throw new jwt.JsonWebTokenError('Token has been revoked');
+  }
+
+  const keys: string[] = [];
+  if (decoded.jti) keys.push(decoded.jti);
+  if (decoded.sessionId) keys.push(sessionKey(decoded.sessionId));
+
+  if (await getRevocationStore().isRevoked(keys)) {
+    throw new jwt.JsonWebTokenError('Token has been revoked');
+  }
+};
+
+export const revokeAccessToken = async (
+  userId: string,
+  jti: string,
+  expiresAt: Date
+): Promise<void> => {
+  await getRevocationStore().revoke(jti, expiresAt);
+  emitTokensRevoked({ userId, jti, reason: 'logout' });
+};
+
+/**
+ * Revokes every access token issued for a session. `expiresAt` only needs to
+ * outlive the longest access token, so the session's own expiry is enough.
+ */
+export const revokeSessionAccessTokens = async (
+  userId: string,
+  sessionId: string,
+  expiresAt: Date
+): Promise<void> => {
+  await getRevocationStore().revoke(sessionKey(sessionId), expiresAt);
+  emitTokensRevoked({ userId, sessionId, reason: 'session_revoked' });
+};
+
+/**
+ * Bumps the user's token version and saves the user, so every access token
+ * issued so far stops working immediately. Tokens signed from `user`
+ * afterwards carry the new version.
+ */
+export const revokeAllAccessTokens = async (user: IUser, reason: string): Promise<void> => {
+  user.tokenVersion = (user.tokenVersion ?? 0) + 1;
+  await user.save();
+  emitTokensRevoked({ userId: user._id.toString(), reason });
+};
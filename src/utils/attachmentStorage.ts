@@ -0,0 +1,74 @@
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { attachmentConfig } from '../config/attachments';
+
+/**
+ * Where attachment bytes live. Keys are generated by `generateStorageKey`
+ * and never contain user input. An S3-compatible driver only needs to
+ * implement these three methods.
+ */
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+export const createLocalStorageDriver = (directory: string): StorageDriver => {
+  const resolve = (key: string): string => {
+    const filePath = path.resolve(directory, key);
+    if (!filePath.startsWith(path.resolve(directory) + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+    async put(key, data) {
+      const filePath = resolve(key);
+      await fsPromises.mkdir(path.dirname(filePath), { recursive: true });
+      await fsPromises.writeFile(filePath, data, { flag: 'wx' });
+    },
+    async get(key) {
+      const filePath = resolve(key);
+      // Surface a missing file as a rejected promise rather than a stream error.
+      await fsPromises.access(filePath);
+      return fs.createReadStream(filePath);
+    },
+    async delete(key) {
+      await fsPromises.rm(resolve(key), { force: true });
+    },
+  };
+};
+
+let driver: StorageDriver | null = null;
+
+const createDriverFromConfig = (): StorageDriver => {
+  switch (attachmentConfig.storageDriver) {
+    case 'local':
+      return createLocalStorageDriver(attachmentConfig.localDirectory);
+    default:
+      throw new Error(`Unknown attachment storage driver "${attachmentConfig.storageDriver}"`);
+  }
+};
+
+/** Replaces the active driver, e.g. with an S3-compatible implementation. */
+export const setStorageDriver = (customDriver: StorageDriver): void => {
+  driver = customDriver;
+};
+
+export const getStorageDriver = (): StorageDriver => {
+  if (!driver) {
+    driver = createDriverFromConfig();
+  }
+  return driver;
+};
+
+export const generateStorageKey = (date = new Date()): string => {
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  return `${date.getUTCFullYear()}/${month}/${crypto.randomBytes(16).toString('hex')}`;
+};
@@ -0,0 +1,55 @@
+import { Attachment, IAttachment } from '../models/Attachment';
+import { getStorageDriver } from './attachmentStorage';
+
+export const isImageMimeType = (mimeType: string): boolean => mimeType.startsWith('image/');
+
+/** Public metadata for clients; storage details stay on the server. */
+export const toAttachmentJson = (attachment: IAttachment) => ({
+  _id: attachment._id,
+  name: attachment.name,
+  size: attachment.size,
+  mimeType: attachment.mimeType,
+  width: attachment.width,
+  height: attachment.height,
+  url: `/api/attachments/${attachment._id}`,
+});
+
+/**
+ * A new, unsent record for `uploaderId` pointing at the same stored file,
+ * so the copy can be sent and deleted independently of the original.
+ */
+export const copyAttachment = (attachment: IAttachment, uploaderId: string): Promise<IAttachment> =>
+  Attachment.create({
+    uploader: uploaderId,
+    storageDriver: attachment.storageDriver,
+    storageKey: attachment.storageKey,
+    name: attachment.name,
+    size: attachment.size,
+    mimeType: attachment.mimeType,
+    width: attachment.width,
+    height: attachment.height,
+  });
+
+/**
+ * Removes an attachment record and, unless another record still points at
+ * the same stored file, the file itself.
+ */
+export const deleteAttachment = async (attachment: IAttachment): Promise<void> => {
+  await Attachment.deleteOne({ _id: attachment._id });
+
+  const shared = await Attachment.exists({
+    storageDriver: attachment.storageDriver,
+    storageKey: attachment.storageKey,
+  });
+  const driver = getStorageDriver();
+  if (!shared && driver.name === attachment.storageDriver) {
+    await driver.delete(attachment.storageKey);
+  }
+};
+
+/** Keeps a readable file name: no path, no control characters. */
+export const sanitizeFileName = (name: string): string => {
+  const base = name.split(/[\\/]/).pop() ?? '';
+  const cleaned = base.replace(/\p{Cc}/gu, '').trim().slice(0, 255);
+  return cleaned || 'file';
+};
@@ -0,0 +1,139 @@
+import { sendMail } from './mailer';
+import { authConfig } from '../config/auth';
+
+interface MailRecipient {
+  email: string;
+  username: string;
+}
+
+export const sendVerificationEmail = async (
+  user: MailRecipient,
+  token: string
+): Promise<void> => {
+  const link = `${authConfig.clientUrl}/verify-email?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your ClashChat email',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      'Please confirm your email address by opening the link below:',
+      link,
+      '',
+      `This link expires in ${authConfig.emailVerificationExpiryHours} hours.`,
+      'If you did not create a ClashChat account you can ignore this email.',
+    ].join('\n'),
+  });
+};
+
+export const sendPasswordResetEmail = async (
+  user: MailRecipient,
+  token: string
+): Promise<void> => {
+  const link = `${authConfig.clientUrl}/reset-password?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your ClashChat password',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      'We received a request to reset your password. Open the link below to choose a new one:',
+      link,
+      '',
+      `This link expires in ${authConfig.passwordResetExpiryMinutes} minutes and can only be used once.`,
+      'If you did not request a password reset you can ignore this email.',
+    ].join('\n'),
+  });
+};
+
+export const sendSecurityAlertEmail = async (
+  user: MailRecipient,
+  details: { deviceName: string; ip: string; occurredAt: Date }
+): Promise<void> => {
+  await sendMail({
+    to: user.email,
+    subject: 'Security alert: a ClashChat session was revoked',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      `An old login token for your session on "${details.deviceName}" was used again at ${details.occurredAt.toISOString()} (IP ${details.ip || 'unknown'}).`,
+      'This can mean the token was copied by someone else, so we logged that session out.',
+      '',
+      `If this was not you, change your password: ${authConfig.clientUrl}/settings/security`,
+    ].join('\n'),
+  });
+};
+
+export const sendAccountDeletionEmail = async (
+  user: MailRecipient,
+  scheduledFor: Date
+): Promise<void> => {
+  await sendMail({
+    to: user.email,
+    subject: 'Your ClashChat account is scheduled for deletion',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      `Your account will be permanently deleted on ${scheduledFor.toISOString()}.`,
+      'Until then you can cancel the deletion simply by logging in again.',
+      '',
+      'After deletion your profile is anonymized. Messages you sent stay visible to the people you talked to, shown as sent by "Deleted user".',
+    ].join('\n'),
+  });
+};
+
+export const sendEmailChangeConfirmationEmail = async (
+  user: MailRecipient,
+  newEmail: string,
+  token: string
+): Promise<void> => {
+  const link = `${authConfig.clientUrl}/confirm-email-change?token=${token}`;
+
+  await sendMail({
+    to: newEmail,
+    subject: 'Confirm your new ClashChat email',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      `Open the link below to use ${newEmail} as the email address for your ClashChat account:`,
+      link,
+      '',
+      `This link expires in ${authConfig.emailVerificationExpiryHours} hours.`,
+      'If you did not request this change you can ignore this email.',
+    ].join('\n'),
+  });
+};
+
+export const sendEmailChangeRequestedEmail = async (
+  user: MailRecipient,
+  newEmail: string
+): Promise<void> => {
+  await sendMail({
+    to: user.email,
+    subject: 'Your ClashChat email is being changed',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      `Someone asked to change the email address of your account to ${newEmail}.`,
+      'Nothing changes until the new address is confirmed. Until then you keep logging in with this address.',
+      '',
+      `If this was not you, change your password: ${authConfig.clientUrl}/settings/security`,
+    ].join('\n'),
+  });
+};
+
+export const sendPasswordChangedEmail = async (user: MailRecipient): Promise<void> => {
+  await sendMail({
+    to: user.email,
+    subject: 'Your ClashChat password was changed',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      'The password for your account was just changed and your other devices were logged out.',
+      '',
+      `If this was not you, reset your password immediately: ${authConfig.clientUrl}/forgot-password`,
+    ].join('\n'),
+  });
+};
@@ -0,0 +1,26 @@
+import { EventEmitter } from 'events';
+
+export interface TokensRevokedEvent {
+  userId: string;
+  /** Only the token with this `jti` was revoked. */
+  jti?: string;
+  /** Every token belonging to this session was revoked. */
+  sessionId?: string;
+  reason: string;
+}
+
+const emitter = new EventEmitter();
+
+/**
+ * In-process notifications about revoked credentials, used to drop socket
+ * connections that authenticated with a token that is no longer valid.
+ * When neither `jti` nor `sessionId` is set, every token of the user is
+ * affected.
+ */
+export const emitTokensRevoked = (event: TokensRevokedEvent): void => {
+  emitter.emit('tokens_revoked', event);
+};
+
+export const onTokensRevoked = (listener: (event: TokensRevokedEvent) => void): void => {
+  emitter.on('tokens_revoked', listener);
+};
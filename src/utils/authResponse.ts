@@ -0,0 +1,64 @@
+import { Request } from 'express';
+import { IUser } from '../models/User';
+import { generateMfaPendingToken } from './jwt';
+import { startSession } from './sessions';
+
+export const toAuthUser = (user: IUser) => ({
+  id: user._id,
+  username: user.username,
+  email: user.email,
+  avatar: user.avatar,
+  status: user.status,
+  emailVerified: user.emailVerified,
+  mfaEnabled: user.mfaEnabled,
+});
+
+/**
+ * Opens a session once every authentication factor has been checked. Logging
+ * in during the deletion grace period cancels a pending account deletion.
+ */
+export const issueLoginTokens = async (
+  user: IUser,
+  req: Request
+): Promise<Record<string, unknown>> => {
+  const deletionCancelled = Boolean(user.deletionScheduledFor);
+  if (deletionCancelled) {
+    user.deletionRequestedAt = undefined;
+    user.deletionScheduledFor = undefined;
+    await user.save();
+  }
+
+  const { accessToken, refreshToken } = await startSession(user, req);
+
+  return {
+    user: toAuthUser(user),
+    accessToken,
+    refreshToken,
+    ...(deletionCancelled && { deletionCancelled }),
+  };
+};
+
+/**
+ * Final step of any login method once the first factor has been checked.
+ * Accounts with two-factor authentication get an MFA-pending token to
+ * exchange at `POST /api/auth/mfa/verify` instead of a session.
+ */
+export const completeLogin = async (
+  user: IUser,
+  req: Request
+): Promise<{ message: string; data: Record<string, unknown> }> => {
+  if (user.mfaEnabled) {
+    return {
+      message: 'Two-factor authentication required',
+      data: {
+        mfaRequired: true,
+        mfaToken: generateMfaPendingToken({ userId: user._id.toString(), email: user.email }),
+      },
+    };
+  }
+
+  return {
+    message: 'Login successful',
+    data: await issueLoginTokens(user, req),
+  };
+};
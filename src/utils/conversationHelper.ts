@@ -0,0 +1,290 @@
+import mongoose from 'mongoose';
+import {
+  Conversation,
+  IConversation,
+  IConversationLastMessage,
+  IConversationMember,
+} from '../models/Conversation';
+import { Message, IMessage } from '../models/Message';
+import { IFriendship } from '../models/Friendship';
+
+/**
+ * The group conversation if `userId` is currently a member of it, or null.
+ * Every group operation goes through this check.
+ */
+export const findMembership = (conversationId: string, userId: string) =>
+  Conversation.findOne({ _id: conversationId, type: 'group', 'members.user': userId });
+
+/** IDs of the group conversations `userId` is a member of. */
+export const getMemberConversationIds = async (userId: string): Promise<mongoose.Types.ObjectId[]> =>
+  Conversation.find({ type: 'group', 'members.user': userId }).distinct('_id');
+
+/**
+ * Query condition for the messages of a group that `userId` can read: those
+ * sent since they joined. History from before stays hidden from new members.
+ */
+export const memberHistoryFilter = (conversation: IConversation, userId: string) => {
+  const member = conversation.members.find((entry) => entry.user.equals(userId));
+  return {
+    conversation: conversation._id,
+    // A non-member gets a condition no message matches yet.
+    createdAt: { $gte: member?.joinedAt ?? new Date() },
+  };
+};
+
+/** `memberHistoryFilter` for every group `userId` is a member of. */
+export const getMemberHistoryFilters = async (userId: string) =>
+  (await Conversation.find({ type: 'group', 'members.user': userId }).select('members')).map(
+    (conversation) => memberHistoryFilter(conversation, userId)
+  );
+
+/**
+ * Query condition excluding messages the user deleted for themselves and
+ * expired messages the expiry job has not removed yet.
+ */
+export const visibleTo = (userId: string) => ({
+  deletedFor: { $ne: userId },
+  expiresAt: { $not: { $lte: new Date() } },
+});
+
+/**
+ * The receiver of a direct message. Group messages have none, so passing
+ * one is a bug in the caller.
+ */
+export const getDirectReceiverId = (message: IMessage): string => {
+  if (!message.receiver) {
+    throw new Error(`Message ${message._id} is not a direct message`);
+  }
+  return message.receiver._id.toString();
+};
+
+/** Identifies the direct conversation of two users, in either order. */
+export const directPairKey = (userId: string, otherUserId: string): string =>
+  [userId, otherUserId].sort().join(':');
+
+const toLastMessage = (message: IMessage): IConversationLastMessage => ({
+  message: message._id as mongoose.Types.ObjectId,
+  sender: message.sender._id,
+  content: message.content,
+  messageType: message.messageType,
+  ...(message.conversation ? {} : { status: message.status }),
+  ...(message.deletedAt ? { deletedAt: message.deletedAt } : {}),
+  createdAt: message.createdAt,
+});
+
+/** The conversation a message belongs to. */
+const conversationOf = (message: IMessage) =>
+  message.conversation
+    ? { _id: message.conversation._id }
+    : {
+        type: 'direct',
+        pairKey: directPairKey(message.sender._id.toString(), getDirectReceiverId(message)),
+      };
+
+/** The messages of a conversation. */
+const messagesOf = (conversation: IConversation) => {
+  if (conversation.type === 'group') {
+    return { conversation: conversation._id };
+  }
+  const [first, second] = conversation.members.map((member) => member.user);
+  return {
+    $or: [
+      { sender: first, receiver: second },
+      { sender: second, receiver: first },
+    ],
+  };
+};
+
+/**
+ * The direct conversation mirroring an accepted friendship, created on
+ * first use.
+ */
+export const ensureDirectConversation = async (friendship: IFriendship): Promise<IConversation> =>
+  (await Conversation.findOneAndUpdate(
+    // Only the unique key, so that the server retries a concurrent insert
+    // of the same pair as an update.
+    { pairKey: directPairKey(friendship.requester.toString(), friendship.recipient.toString()) },
+    {
+      $set: { friendship: friendship._id },
+      $setOnInsert: {
+        type: 'direct',
+        members: [{ user: friendship.requester }, { user: friendship.recipient }],
+      },
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  )) as IConversation;
+
+/**
+ * Updates the chat list after a new message: it becomes the last message
+ * unless a newer one was recorded first, and counts as unread for everyone
+ * but its sender. Direct messages need their friendship.
+ */
+export const recordMessage = async (message: IMessage, friendship?: IFriendship): Promise<void> => {
+  if (friendship) {
+    await ensureDirectConversation(friendship);
+  }
+
+  const isNewest = { $lte: [{ $ifNull: ['$lastMessageAt', new Date(0)] }, message.createdAt] };
+  await Conversation.updateOne(conversationOf(message), [
+    {
+      $set: {
+        // Literal, so that content starting with `$` is not read as a field path.
+        lastMessage: { $cond: [isNewest, { $literal: toLastMessage(message) }, '$lastMessage'] },
+        lastMessageAt: { $max: ['$lastMessageAt', message.createdAt] },
+        members: {
+          $map: {
+            input: '$members',
+            as: 'member',
+            in: {
+              $mergeObjects: [
+                '$$member',
+                {
+                  unreadCount: {
+                    $add: [
+                      { $ifNull: ['$$member.unreadCount', 0] },
+                      { $cond: [{ $eq: ['$$member.user', message.sender._id] }, 0, 1] },
+                    ],
+                  },
+                  lastMessageOverride: { $cond: [isNewest, null, '$$member.lastMessageOverride'] },
+                },
+              ],
+            },
+          },
+        },
+      },
+    },
+  ]);
+};
+
+/**
+ * Copies a changed message (edited, deleted for everyone or delivered)
+ * into the chat list wherever it is shown as the last message.
+ */
+export const syncLastMessage = async (message: IMessage): Promise<void> => {
+  const filter = conversationOf(message);
+  const lastMessage = toLastMessage(message);
+
+  await Conversation.updateOne(
+    { ...filter, 'lastMessage.message': message._id },
+    { $set: { lastMessage } }
+  );
+  await Conversation.updateOne(
+    filter,
+    { $set: { 'members.$[member].lastMessageOverride.lastMessage': lastMessage } },
+    { arrayFilters: [{ 'member.lastMessageOverride.lastMessage.message': message._id }] }
+  );
+};
+
+/** Unread messages from the friend, from the chat list summary. */
+export const getDirectUnreadCount = async (userId: string, friendId: string): Promise<number> => {
+  const conversation = await Conversation.findOne({ type: 'direct', pairKey: directPairKey(userId, friendId) })
+    .select('members');
+  return conversation?.members.find((member) => member.user.equals(userId))?.unreadCount ?? 0;
+};
+
+/**
+ * Updates the chat list after `userId` read a direct chat up to messages
+ * sent at `readAt`: recounts their unread messages and marks the last
+ * message read if the friend sent it by then. Resolves to the unread count.
+ */
+export const recordDirectRead = async (userId: string, friendId: string, readAt: Date): Promise<number> => {
+  const pairKey = directPairKey(userId, friendId);
+  const unreadCount = await Message.countDocuments({
+    sender: friendId,
+    receiver: userId,
+    status: { $ne: 'read' },
+    ...visibleTo(userId),
+  });
+
+  await Conversation.updateOne(
+    { type: 'direct', pairKey, 'members.user': userId },
+    { $set: { 'members.$.unreadCount': unreadCount } }
+  );
+  await Conversation.updateOne(
+    { type: 'direct', pairKey, 'lastMessage.sender': friendId, 'lastMessage.createdAt': { $lte: readAt } },
+    { $set: { 'lastMessage.status': 'read' } }
+  );
+  return unreadCount;
+};
+
+/** Recounts the unread messages of one member and their view of the last message. */
+const rebuildMember = async (conversation: IConversation, member: IConversationMember): Promise<void> => {
+  const userId = member.user.toString();
+  const messages = messagesOf(conversation);
+
+  const unread =
+    conversation.type === 'group'
+      ? { sender: { $ne: userId }, createdAt: { $gt: member.lastReadAt ?? member.joinedAt } }
+      : { sender: { $ne: userId }, receiver: userId, status: { $ne: 'read' } };
+  const history = conversation.type === 'group' ? { createdAt: { $gte: member.joinedAt } } : {};
+
+  const [unreadCount, newest] = await Promise.all([
+    Message.countDocuments({ ...messages, ...unread, ...visibleTo(userId) }),
+    Message.findOne({ ...messages, ...history, ...visibleTo(userId) }).sort({ createdAt: -1, _id: -1 }),
+  ]);
+
+  const lastMessageId = conversation.lastMessage?.message;
+  const lastMessageOverride =
+    !lastMessageId || newest?._id.equals(lastMessageId)
+      ? null
+      : { lastMessage: newest ? toLastMessage(newest) : null };
+
+  await Conversation.updateOne(
+    { _id: conversation._id, 'members.user': member.user },
+    { $set: { 'members.$.unreadCount': unreadCount, 'members.$.lastMessageOverride': lastMessageOverride } }
+  );
+};
+
+/**
+ * Refreshes the chat list entry of `userId` for the conversation of a
+ * message after they deleted it for themselves.
+ */
+export const refreshMemberSummary = async (message: IMessage, userId: string): Promise<void> => {
+  const conversation = await Conversation.findOne(conversationOf(message));
+  const member = conversation?.members.find((entry) => entry.user.equals(userId));
+  if (conversation && member) {
+    await rebuildMember(conversation, member);
+  }
+};
+
+/**
+ * Recomputes the whole summary of a conversation from its messages. Used
+ * when messages disappear in bulk and by the backfill migration.
+ */
+export const rebuildConversation = async (conversation: IConversation): Promise<void> => {
+  const newest = await Message.findOne({
+    ...messagesOf(conversation),
+    expiresAt: { $not: { $lte: new Date() } },
+  }).sort({ createdAt: -1, _id: -1 });
+
+  const updated = await Conversation.findOneAndUpdate(
+    { _id: conversation._id },
+    newest
+      ? { $set: { lastMessage: toLastMessage(newest), lastMessageAt: newest.createdAt } }
+      : { $unset: { lastMessage: 1, lastMessageAt: 1 } },
+    { new: true }
+  );
+  if (!updated) {
+    return;
+  }
+
+  for (const member of updated.members) {
+    await rebuildMember(updated, member);
+  }
+};
+
+/** `rebuildConversation` for the direct conversation of two users, if any. */
+export const rebuildDirectConversation = async (userId: string, friendId: string): Promise<void> => {
+  const conversation = await Conversation.findOne({ type: 'direct', pairKey: directPairKey(userId, friendId) });
+  if (conversation) {
+    await rebuildConversation(conversation);
+  }
+};
+
+/**
+ * Drops the direct conversation of two users who are no longer friends.
+ * Their messages stay and are summarized again if they become friends again.
+ */
+export const removeDirectConversation = async (userId: string, friendId: string): Promise<void> => {
+  await Conversation.deleteOne({ type: 'direct', pairKey: directPairKey(userId, friendId) });
+};
@@ -0,0 +1,79 @@
+import mongoose from 'mongoose';
+import { Message, IMessage } from '../models/Message';
+import { Friendship, DISAPPEARING_TIMERS, DisappearingTimer } from '../models/Friendship';
+import { PUBLIC_USER_FIELDS } from '../models/User';
+import { MessageError } from './messageHelper';
+import { findAcceptedFriendship } from './friendshipHelper';
+import { recordMessage, getDirectReceiverId } from './conversationHelper';
+import { emitToUser } from '../socket/emitter';
+
+const TIMER_LABELS: Record<DisappearingTimer, string> = {
+  off: 'off',
+  '1h': '1 hour',
+  '24h': '24 hours',
+  '7d': '7 days',
+};
+
+export const isDisappearingTimer = (value: unknown): value is DisappearingTimer =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(DISAPPEARING_TIMERS, value);
+
+/**
+ * Changes the disappearing-messages timer of the conversation between
+ * `userId` and `friendId` and records the change as a `system` message
+ * from `userId`. Resolves to `null` when the timer already had that value.
+ */
+export const setDisappearingTimer = async (
+  userId: string,
+  friendId: string,
+  timer: unknown
+): Promise<IMessage | null> => {
+  if (!mongoose.Types.ObjectId.isValid(friendId)) {
+    throw new MessageError('Please provide a valid friend ID');
+  }
+
+  if (!isDisappearingTimer(timer)) {
+    throw new MessageError(`Timer must be one of ${Object.keys(DISAPPEARING_TIMERS).join(', ')}`);
+  }
+
+  const friendship = await findAcceptedFriendship(userId, friendId);
+  if (!friendship) {
+    throw new MessageError('You can only change settings of conversations with friends', 403);
+  }
+
+  const updated = await Friendship.updateOne(
+    { _id: friendship._id, disappearingTimer: { $ne: timer } },
+    { $set: { disappearingTimer: timer } }
+  );
+  if (!updated.modifiedCount) {
+    return null;
+  }
+
+  const message = await Message.create({
+    sender: userId,
+    receiver: friendId,
+    content:
+      timer === 'off'
+        ? 'Disappearing messages turned off'
+        : `Disappearing messages set to ${TIMER_LABELS[timer]}`,
+    messageType: 'system',
+    systemEvent: { type: 'disappearing_timer', timer },
+    status: 'sent',
+  });
+
+  await recordMessage(message, friendship);
+  await message.populate('sender receiver', PUBLIC_USER_FIELDS);
+  return message;
+};
+
+/**
+ * Sends `disappearing_timer_changed` to every device of both participants,
+ * with the serialized system message announcing it.
+ */
+export const emitDisappearingTimerChange = (message: IMessage, payload: unknown): void => {
+  const changedBy = message.sender._id.toString();
+  const otherId = getDirectReceiverId(message);
+  const timer = message.systemEvent?.timer;
+
+  emitToUser(changedBy, 'disappearing_timer_changed', { friendId: otherId, timer, changedBy, message: payload });
+  emitToUser(otherId, 'disappearing_timer_changed', { friendId: changedBy, timer, changedBy, message: payload });
+};
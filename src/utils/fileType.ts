@@ -0,0 +1,129 @@
+export interface SniffedFile {
+  mimeType: string;
+  width?: number;
+  height?: number;
+}
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0): boolean =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+
+const ascii = (buffer: Buffer, offset: number, length: number): string =>
+  buffer.toString('latin1', offset, offset + length);
+
+const JPEG_SOF_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+const jpegDimensions = (buffer: Buffer): { width: number; height: number } | undefined => {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) return undefined;
+    const marker = buffer[offset + 1];
+    // Fill bytes and standalone markers carry no length.
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return undefined;
+};
+
+const webpDimensions = (buffer: Buffer): { width: number; height: number } | undefined => {
+  const chunk = ascii(buffer, 12, 4);
+  if (chunk === 'VP8 ' && buffer.length >= 30) {
+    return {
+      width: buffer.readUInt16LE(26) & 0x3fff,
+      height: buffer.readUInt16LE(28) & 0x3fff,
+    };
+  }
+  if (chunk === 'VP8L' && buffer.length >= 25) {
+    return {
+      width: 1 + (((buffer[22] & 0x3f) << 8) | buffer[21]),
+      height: 1 + (((buffer[24] & 0x0f) << 10) | (buffer[23] << 2) | ((buffer[22] & 0xc0) >> 6)),
+    };
+  }
+  if (chunk === 'VP8X' && buffer.length >= 30) {
+    return { width: 1 + buffer.readUIntLE(24, 3), height: 1 + buffer.readUIntLE(27, 3) };
+  }
+  return undefined;
+};
+
+const OFFICE_TYPES: Record<string, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+const isUtf8Text = (buffer: Buffer): boolean => {
+  const sample = buffer.subarray(0, 8192);
+  if (sample.includes(0)) return false;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample);
+    return true;
+  } catch {
+    // A multi-byte character cut off at the sample boundary is still text.
+    return sample.length === 8192 && buffer.length > 8192;
+  }
+};
+
+/**
+ * Detects a file's type from its leading bytes, ignoring whatever type the
+ * client claimed. Returns null for anything not on the supported list.
+ * Image dimensions are read from the headers without decoding the image.
+ */
+export const sniffFile = (buffer: Buffer, fileName = ''): SniffedFile | null => {
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) && buffer.length >= 24) {
+    return { mimeType: 'image/png', width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+    return { mimeType: 'image/jpeg', ...jpegDimensions(buffer) };
+  }
+
+  if ((ascii(buffer, 0, 6) === 'GIF87a' || ascii(buffer, 0, 6) === 'GIF89a') && buffer.length >= 10) {
+    return { mimeType: 'image/gif', width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+  }
+
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 4) === 'WEBP') {
+    return { mimeType: 'image/webp', ...webpDimensions(buffer) };
+  }
+
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 4) === 'WAVE') {
+    return { mimeType: 'audio/wav' };
+  }
+
+  if (ascii(buffer, 0, 5) === '%PDF-') {
+    return { mimeType: 'application/pdf' };
+  }
+
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04])) {
+    const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+    return { mimeType: OFFICE_TYPES[extension] ?? 'application/zip' };
+  }
+
+  if (ascii(buffer, 4, 4) === 'ftyp') {
+    return { mimeType: ascii(buffer, 8, 3) === 'M4A' ? 'audio/mp4' : 'video/mp4' };
+  }
+
+  if (ascii(buffer, 0, 3) === 'ID3' || (buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0)) {
+    return { mimeType: 'audio/mpeg' };
+  }
+
+  if (ascii(buffer, 0, 4) === 'OggS') {
+    return { mimeType: 'audio/ogg' };
+  }
+
+  if (buffer.length > 0 && isUtf8Text(buffer)) {
+    return { mimeType: 'text/plain' };
+  }
+
+  return null;
+};
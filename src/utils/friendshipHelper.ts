@@ -1,4 +1,5 @@
 import { Types } from "mongoose";
+import { Friendship } from "../models/Friendship";
 
 interface FriendshipDoc {
   _id: Types.ObjectId;
@@ -53,3 +54,16 @@ export const mapUserWithFriendshipStatus = (
 
   return { ...userObj, friendshipStatus: "none" as FriendshipStatus, friendRequestId: null };
 };
+
+/**
+ * The accepted friendship between two users, or null. Messaging is only
+ * allowed between friends, so every send path goes through this check.
+ */
+export const findAcceptedFriendship = (userId: string, otherUserId: string) =>
+  Friendship.findOne({
+    $or: [
+      { requester: userId, recipient: otherUserId },
+      { requester: otherUserId, recipient: userId },
+    ],
+    status: "accepted",
+  });
@@ -0,0 +1,477 @@
+import mongoose from 'mongoose';
+import { Conversation, IConversation, IConversationMember, ConversationRole } from '../models/Conversation';
+import { Message, IMessage, IMessageSystemEvent } from '../models/Message';
+import { Friendship } from '../models/Friendship';
+import { Attachment } from '../models/Attachment';
+import { User, PUBLIC_USER_FIELDS, DELETED_USER_NAME } from '../models/User';
+import { messagingConfig } from '../config/messaging';
+import { MessageError } from './messageHelper';
+import { findMembership, memberHistoryFilter, visibleTo, recordMessage } from './conversationHelper';
+import { deleteAttachment } from './attachments';
+import { emitToUser } from '../socket/emitter';
+
+const MAX_NAME_LENGTH = 100;
+
+const ROLE_RANK: Record<ConversationRole, number> = { member: 0, admin: 1, owner: 2 };
+
+const MANAGER_ROLES: ConversationRole[] = ['owner', 'admin'];
+
+const memberId = (member: IConversationMember): string => member.user._id.toString();
+
+const getMember = (conversation: IConversation, userId: string): IConversationMember | undefined =>
+  conversation.members.find((member) => memberId(member) === userId);
+
+const parseName = (value: unknown): string => {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw new MessageError(`Group name must be between 1 and ${MAX_NAME_LENGTH} characters`);
+  }
+  return name;
+};
+
+const parseUserIds = (value: unknown, userId: string): string[] => {
+  const ids = Array.isArray(value) ? value : [value];
+  if (!ids.length || !ids.every((id) => typeof id === 'string' && mongoose.Types.ObjectId.isValid(id))) {
+    throw new MessageError('Please provide valid user IDs');
+  }
+  return Array.from(new Set(ids as string[])).filter((id) => id !== userId);
+};
+
+/** The group with `conversationId`, if `userId` belongs to it. */
+export const loadGroup = async (conversationId: string, userId: string): Promise<IConversation> => {
+  if (!mongoose.Types.ObjectId.isValid(conversationId)) {
+    throw new MessageError('Please provide a valid conversation ID');
+  }
+
+  const conversation = await findMembership(conversationId, userId);
+  if (!conversation) {
+    throw new MessageError('Group not found', 404);
+  }
+  return conversation;
+};
+
+const requireRole = (conversation: IConversation, userId: string, role: ConversationRole): IConversationMember => {
+  const member = getMember(conversation, userId);
+  if (!member || ROLE_RANK[member.role] < ROLE_RANK[role]) {
+    throw new MessageError(
+      role === 'owner' ? 'Only the group owner can do this' : 'Only group admins can do this',
+      403
+    );
+  }
+  return member;
+};
+
+/**
+ * Members can only be added by a friend: checks that every user is an
+ * accepted friend of `userId` and has not deleted their account.
+ */
+const assertFriends = async (userId: string, userIds: string[]): Promise<void> => {
+  const friendships = await Friendship.find({
+    $or: [
+      { requester: userId, recipient: { $in: userIds } },
+      { requester: { $in: userIds }, recipient: userId },
+    ],
+    status: 'accepted',
+  }).select('requester recipient');
+  const friendIds = new Set(
+    friendships.map((friendship) =>
+      friendship.requester.toString() === userId
+        ? friendship.recipient.toString()
+        : friendship.requester.toString()
+    )
+  );
+  if (!userIds.every((id) => friendIds.has(id))) {
+    throw new MessageError('You can only add friends to a group', 403);
+  }
+
+  if (await User.exists({ _id: { $in: userIds }, deletedAt: { $exists: true } })) {
+    throw new MessageError('This account has been deleted', 410);
+  }
+};
+
+const joinNames = async (userIds: (string | mongoose.Types.ObjectId)[]): Promise<string> => {
+  const users = await User.find({ _id: { $in: userIds } }).select('username deletedAt');
+  const names = users.map((user) => (user.deletedAt ? DELETED_USER_NAME : user.username));
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('');
+};
+
+/**
+ * Records a membership or settings change as a `system` message from
+ * `userId`. The caller delivers it like any other message.
+ */
+const createSystemMessage = async (
+  conversation: IConversation,
+  userId: string,
+  describe: (actor: string) => string,
+  systemEvent: IMessageSystemEvent
+): Promise<IMessage> => {
+  const message = await Message.create({
+    sender: userId,
+    conversation: conversation._id,
+    content: describe(await joinNames([userId])),
+    messageType: 'system',
+    systemEvent,
+    status: 'sent',
+  });
+
+  await recordMessage(message);
+  await message.populate('sender', PUBLIC_USER_FIELDS);
+  return message;
+};
+
+/** The group with its members populated, without their receipt watermarks. */
+export const serializeConversation = async (conversation: IConversation): Promise<Record<string, unknown>> => {
+  await conversation.populate('members.user', PUBLIC_USER_FIELDS);
+  return {
+    _id: conversation._id,
+    name: conversation.name,
+    createdBy: conversation.createdBy,
+    members: conversation.members.map((member) => ({
+      user: member.user,
+      role: member.role,
+      joinedAt: member.joinedAt,
+    })),
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+  };
+};
+
+/** Pushes a live event to every device of every current member. */
+export const emitToMembers = (conversation: IConversation, event: string, payload: unknown): void => {
+  conversation.members.forEach((member) => emitToUser(memberId(member), event, payload));
+};
+
+/**
+ * Tells the members about a changed group with `conversation_updated`,
+ * and users who are no longer members with `conversation_removed`.
+ */
+export const emitConversationUpdate = async (
+  conversationId: string,
+  conversation: IConversation | null,
+  removedUserIds: string[] = []
+): Promise<void> => {
+  removedUserIds.forEach((userId) => emitToUser(userId, 'conversation_removed', { conversationId }));
+  if (conversation) {
+    emitToMembers(conversation, 'conversation_updated', await serializeConversation(conversation));
+  }
+};
+
+/** Creates a group owned by `userId` with some of their friends. */
+export const createGroup = async (
+  userId: string,
+  name: unknown,
+  memberIds: unknown
+): Promise<{ conversation: IConversation; message: IMessage }> => {
+  const groupName = parseName(name);
+  const userIds = parseUserIds(memberIds, userId);
+  if (!userIds.length) {
+    throw new MessageError('Add at least one friend to the group');
+  }
+  if (userIds.length + 1 > messagingConfig.maxGroupMembers) {
+    throw new MessageError(`A group can have at most ${messagingConfig.maxGroupMembers} members`);
+  }
+  await assertFriends(userId, userIds);
+
+  const joinedAt = new Date();
+  const conversation = await Conversation.create({
+    name: groupName,
+    createdBy: userId,
+    members: [
+      { user: userId, role: 'owner', joinedAt },
+      ...userIds.map((id) => ({ user: id, role: 'member', joinedAt })),
+    ],
+  });
+
+  const message = await createSystemMessage(
+    conversation,
+    userId,
+    (actor) => `${actor} created the group "${groupName}"`,
+    { type: 'group_created', name: groupName }
+  );
+  return { conversation, message };
+};
+
+/** Renames a group. Resolves to a null message when the name did not change. */
+export const renameGroup = async (
+  userId: string,
+  conversationId: string,
+  name: unknown
+): Promise<{ conversation: IConversation; message: IMessage | null }> => {
+  const groupName = parseName(name);
+  const conversation = await loadGroup(conversationId, userId);
+  requireRole(conversation, userId, 'admin');
+
+  const updated = await Conversation.findOneAndUpdate(
+    {
+      _id: conversation._id,
+      name: { $ne: groupName },
+      members: { $elemMatch: { user: userId, role: { $in: MANAGER_ROLES } } },
+    },
+    { $set: { name: groupName } },
+    { new: true }
+  );
+  if (!updated) {
+    return { conversation, message: null };
+  }
+
+  const message = await createSystemMessage(
+    updated,
+    userId,
+    (actor) => `${actor} renamed the group to "${groupName}"`,
+    { type: 'group_renamed', name: groupName }
+  );
+  return { conversation: updated, message };
+};
+
+/** Adds friends of `userId`, who must be an admin, to a group. */
+export const addMembers = async (
+  userId: string,
+  conversationId: string,
+  memberIds: unknown
+): Promise<{ conversation: IConversation; message: IMessage }> => {
+  const conversation = await loadGroup(conversationId, userId);
+  requireRole(conversation, userId, 'admin');
+
+  const userIds = parseUserIds(memberIds, userId).filter((id) => !getMember(conversation, id));
+  if (!userIds.length) {
+    throw new MessageError('These users are already members of the group');
+  }
+  const maxMembers = messagingConfig.maxGroupMembers;
+  if (conversation.members.length + userIds.length > maxMembers) {
+    throw new MessageError(`A group can have at most ${maxMembers} members`);
+  }
+  await assertFriends(userId, userIds);
+
+  // Conditional on the caller still being an admin and on the size, so
+  // concurrent changes cannot exceed the limit.
+  const joinedAt = new Date();
+  const updated = await Conversation.findOneAndUpdate(
+    {
+      _id: conversation._id,
+      members: { $elemMatch: { user: userId, role: { $in: MANAGER_ROLES } } },
+      'members.user': { $nin: userIds },
+      $expr: { $lte: [{ $add: [{ $size: '$members' }, userIds.length] }, maxMembers] },
+    },
+    { $push: { members: { $each: userIds.map((id) => ({ user: id, role: 'member', joinedAt })) } } },
+    { new: true }
+  );
+  if (!updated) {
+    throw new MessageError('The group was changed by another request, please retry', 409);
+  }
+
+  const added = await joinNames(userIds);
+  const message = await createSystemMessage(
+    updated,
+    userId,
+    (actor) => `${actor} added ${added}`,
+    { type: 'members_added', users: userIds.map((id) => new mongoose.Types.ObjectId(id)) }
+  );
+  return { conversation: updated, message };
+};
+
+/**
+ * Removes a member. Admins can remove members; only the owner can remove
+ * admins, and the owner cannot be removed.
+ */
+export const removeMember = async (
+  userId: string,
+  conversationId: string,
+  targetId: string
+): Promise<{ conversation: IConversation; message: IMessage }> => {
+  if (!mongoose.Types.ObjectId.isValid(targetId)) {
+    throw new MessageError('Please provide a valid user ID');
+  }
+  if (targetId === userId) {
+    throw new MessageError('Leave the group instead of removing yourself');
+  }
+
+  const conversation = await loadGroup(conversationId, userId);
+  const actor = requireRole(conversation, userId, 'admin');
+  const target = getMember(conversation, targetId);
+  if (!target) {
+    throw new MessageError('This user is not a member of the group', 404);
+  }
+  if (ROLE_RANK[target.role] >= ROLE_RANK[actor.role]) {
+    throw new MessageError('You can only remove members with a lower role than yours', 403);
+  }
+
+  const updated = await Conversation.findOneAndUpdate(
+    {
+      _id: conversation._id,
+      members: { $elemMatch: { user: userId, role: actor.role } },
+      'members.user': targetId,
+    },
+    { $pull: { members: { user: targetId } } },
+    { new: true }
+  );
+  if (!updated) {
+    throw new MessageError('The group was changed by another request, please retry', 409);
+  }
+
+  const removed = await joinNames([targetId]);
+  const message = await createSystemMessage(
+    updated,
+    userId,
+    (actorName) => `${actorName} removed ${removed}`,
+    { type: 'member_removed', users: [new mongoose.Types.ObjectId(targetId)] }
+  );
+  return { conversation: updated, message };
+};
+
+/** Makes a member an admin or an admin a member again. Owner only. */
+export const changeMemberRole = async (
+  userId: string,
+  conversationId: string,
+  targetId: string,
+  role: unknown
+): Promise<IConversation> => {
+  if (!mongoose.Types.ObjectId.isValid(targetId)) {
+    throw new MessageError('Please provide a valid user ID');
+  }
+  if (role !== 'admin' && role !== 'member') {
+    throw new MessageError('Role must be "admin" or "member"');
+  }
+
+  const conversation = await loadGroup(conversationId, userId);
+  requireRole(conversation, userId, 'owner');
+  const target = getMember(conversation, targetId);
+  if (!target) {
+    throw new MessageError('This user is not a member of the group', 404);
+  }
+  if (target.role === 'owner') {
+    throw new MessageError('The owner role cannot be changed');
+  }
+
+  const updated = await Conversation.findOneAndUpdate(
+    { _id: conversation._id, 'members.user': targetId },
+    { $set: { 'members.$.role': role } },
+    { new: true }
+  );
+  if (!updated) {
+    throw new MessageError('This user is not a member of the group', 404);
+  }
+  return updated;
+};
+
+/** Deletes an abandoned group with its messages and their attachments. */
+const deleteGroup = async (conversation: IConversation): Promise<void> => {
+  const attachmentIds = await Message.find({
+    conversation: conversation._id,
+    attachment: { $exists: true },
+  }).distinct('attachment');
+
+  await Message.deleteMany({ conversation: conversation._id });
+  await Conversation.deleteOne({ _id: conversation._id });
+
+  const attachments = attachmentIds.length
+    ? await Attachment.find({ _id: { $in: attachmentIds } })
+    : [];
+  for (const attachment of attachments) {
+    try {
+      await deleteAttachment(attachment);
+    } catch (error) {
+      console.error(`Attachment cleanup failed for ${attachment._id}:`, error);
+    }
+  }
+};
+
+/**
+ * Removes `userId` from a group. An owner who leaves hands the group to
+ * the longest-standing admin, or member if there is none. The last member
+ * leaving deletes the group; the conversation then resolves to null.
+ */
+export const leaveGroup = async (
+  userId: string,
+  conversationId: string
+): Promise<{ conversation: IConversation | null; message: IMessage | null }> => {
+  const conversation = await loadGroup(conversationId, userId);
+  const member = getMember(conversation, userId) as IConversationMember;
+
+  const others = conversation.members
+    .filter((entry) => memberId(entry) !== userId)
+    .sort((a, b) => ROLE_RANK[b.role] - ROLE_RANK[a.role] || a.joinedAt.getTime() - b.joinedAt.getTime());
+  if (!others.length) {
+    await deleteGroup(conversation);
+    return { conversation: null, message: null };
+  }
+
+  if (member.role === 'owner') {
+    await Conversation.updateOne(
+      { _id: conversation._id },
+      { $set: { 'members.$[next].role': 'owner' } },
+      { arrayFilters: [{ 'next.user': others[0].user }] }
+    );
+  }
+
+  const updated = await Conversation.findOneAndUpdate(
+    { _id: conversation._id },
+    { $pull: { members: { user: userId } } },
+    { new: true }
+  );
+  if (!updated) {
+    return { conversation: null, message: null };
+  }
+
+  const message = await createSystemMessage(
+    updated,
+    userId,
+    (actor) => `${actor} left the group`,
+    { type: 'member_left' }
+  );
+  return { conversation: updated, message };
+};
+
+/**
+ * Moves the read watermark of `userId` up to `messageId`, or to the newest
+ * message of the group without one, and tells the members with
+ * `conversation_read`. The watermark never moves back. Resolves to the
+ * number of messages from others still unread.
+ */
+export const markConversationRead = async (
+  userId: string,
+  conversation: IConversation,
+  messageId?: unknown
+): Promise<number> => {
+  const member = getMember(conversation, userId);
+  if (!member) {
+    return 0;
+  }
+
+  const hasMessageId = messageId !== undefined && messageId !== null && messageId !== '';
+  if (hasMessageId && (typeof messageId !== 'string' || !mongoose.Types.ObjectId.isValid(messageId))) {
+    throw new MessageError('Please provide a valid message ID');
+  }
+
+  const lastRead = await Message.findOne({
+    ...memberHistoryFilter(conversation, userId),
+    ...(hasMessageId ? { _id: messageId } : {}),
+    ...visibleTo(userId),
+  })
+    .sort({ createdAt: -1, _id: -1 })
+    .select('createdAt');
+  if (hasMessageId && !lastRead) {
+    throw new MessageError('Message not found', 404);
+  }
+
+  const readAt =
+    lastRead && !(member.lastReadAt && member.lastReadAt >= lastRead.createdAt) ? lastRead.createdAt : null;
+  const unreadCount = await Message.countDocuments({
+    conversation: conversation._id,
+    sender: { $ne: userId },
+    createdAt: { $gt: readAt ?? member.lastReadAt ?? member.joinedAt },
+    ...visibleTo(userId),
+  });
+
+  await Conversation.updateOne(
+    { _id: conversation._id, 'members.user': userId },
+    {
+      $set: { 'members.$.unreadCount': unreadCount },
+      ...(readAt && { $max: { 'members.$.lastReadAt': readAt, 'members.$.lastDeliveredAt': readAt } }),
+    }
+  );
+
+  if (readAt) {
+    emitToMembers(conversation, 'conversation_read', { conversationId: conversation._id, userId, readAt });
+  }
+  return unreadCount;
+};
@@ -1,31 +1,70 @@
 import jwt, { SignOptions } from 'jsonwebtoken';
+import crypto from 'crypto';
 
 export interface TokenPayload {
   userId: string;
   email: string;
+  sessionId?: string;
+  jti?: string;
+  tokenType?: 'access' | 'mfa_pending';
+  tokenVersion?: number;
+  exp?: number;
 }
 
 export const generateAccessToken = (payload: TokenPayload): string => {
   return jwt.sign(
-    payload,
+    { ...payload, tokenType: 'access' },
     process.env.JWT_ACCESS_SECRET || 'access-secret',
-    { expiresIn: process.env.JWT_ACCESS_EXPIRY || '1d' } as SignOptions
+    { expiresIn: process.env.JWT_ACCESS_EXPIRY || '1d', jwtid: crypto.randomUUID() } as SignOptions
   );
 };
 
-export const generateRefreshToken = (payload: TokenPayload): string => {
+export const generateRefreshToken = (payload: TokenPayload, jti: string): string => {
   return jwt.sign(
     payload,
     process.env.JWT_REFRESH_SECRET || 'refresh-secret',
-    { expiresIn: process.env.JWT_REFRESH_EXPIRY || '7d' } as SignOptions
+    { expiresIn: process.env.JWT_REFRESH_EXPIRY || '7d', jwtid: jti } as SignOptions
   );
 };
 
 export const verifyAccessToken = (token: string): TokenPayload => {
-  return jwt.verify(
+  const decoded = jwt.verify(
+    token,
+    process.env.JWT_ACCESS_SECRET || 'access-secret'
+  ) as TokenPayload;
+
+  // MFA-pending tokens share the access secret but must never grant access.
+  if (decoded.tokenType && decoded.tokenType !== 'access') {
+    throw new jwt.JsonWebTokenError('Token is not an access token');
+  }
+
+  return decoded;
+};
+
+/**
+ * Short-lived token returned by `login` for accounts with two-factor
+ * authentication. It only proves the password step and can be exchanged
+ * for a real token pair at `POST /api/auth/mfa/verify`.
+ */
+export const generateMfaPendingToken = (payload: TokenPayload): string => {
+  return jwt.sign(
+    { ...payload, tokenType: 'mfa_pending' },
+    process.env.JWT_ACCESS_SECRET || 'access-secret',
+    { expiresIn: process.env.JWT_MFA_PENDING_EXPIRY || '5m', jwtid: crypto.randomUUID() } as SignOptions
+  );
+};
+
+export const verifyMfaPendingToken = (token: string): TokenPayload => {
+  const decoded = jwt.verify(
     token,
     process.env.JWT_ACCESS_SECRET || 'access-secret'
   ) as TokenPayload;
+
+  if (decoded.tokenType !== 'mfa_pending') {
+    throw new jwt.JsonWebTokenError('Token is not an MFA token');
+  }
+
+  return decoded;
 };
 
 export const verifyRefreshToken = (token: string): TokenPayload => {
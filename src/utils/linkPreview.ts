@@ -0,0 +1,385 @@
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import net from 'net';
+import { linkPreviewConfig } from '../config/linkPreview';
+
+export interface LinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  image?: string;
+  siteName?: string;
+}
+
+/**
+ * Turns a URL into preview metadata, or `null` when the page has none.
+ * Replaceable so tests can point previews at a stub server.
+ */
+export interface LinkPreviewFetcher {
+  fetch(url: string): Promise<LinkPreview | null>;
+}
+
+const MAX_REDIRECTS = 3;
+const MAX_TITLE_LENGTH = 300;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_CACHE_ENTRIES = 1000;
+// Failed or empty previews are retried sooner than successful ones.
+const NEGATIVE_CACHE_MS = 5 * 60 * 1000;
+const USER_AGENT = 'ClashChatBot/1.0 (+link preview)';
+
+// Loopback, private, link-local, carrier-grade NAT, documentation,
+// multicast and reserved ranges. BlockList applies the IPv4 rules to
+// IPv4-mapped IPv6 addresses too; the other IPv6 forms that embed an IPv4
+// address (IPv4-compatible, NAT64, 6to4 and Teredo) are blocked outright.
+const blockedAddresses = new net.BlockList();
+(
+  [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.0.2.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['198.51.100.0', 24],
+    ['203.0.113.0', 24],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+  ] as const
+).forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv4'));
+(
+  [
+    // Unspecified, loopback and IPv4-compatible addresses.
+    ['::', 96],
+    ['64:ff9b::', 96],
+    ['100::', 64],
+    ['2001::', 32],
+    ['2001:db8::', 32],
+    ['2002::', 16],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+  ] as const
+).forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv6'));
+
+export const isPublicAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  if (!family) {
+    return false;
+  }
+  return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * DNS lookup that fails unless every address of the host is public. The
+ * connection then uses the checked address, so the name cannot be
+ * re-resolved to a private one in between.
+ */
+const createSafeLookup = (allowPrivateAddresses: boolean): net.LookupFunction =>
+  (hostname, options, callback) => {
+    dns.lookup(hostname, { all: true, family: options.family }, (error, addresses) => {
+      if (error) {
+        callback(error, '', 0);
+        return;
+      }
+      if (!addresses.length || (!allowPrivateAddresses && !addresses.every((entry) => isPublicAddress(entry.address)))) {
+        callback(new Error(`Refusing to connect to ${hostname}`), '', 0);
+        return;
+      }
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+
+interface FetchedDocument {
+  url: URL;
+  contentType: string;
+  body: string;
+}
+
+export interface HttpLinkPreviewOptions {
+  timeoutMs: number;
+  maxBytes: number;
+  /** Only for tests against a local stub server. */
+  allowPrivateAddresses?: boolean;
+}
+
+const decodeBody = (body: Buffer, contentType: string): string => {
+  const charset = /charset=["']?([\w-]+)/i.exec(contentType)?.[1] ?? 'utf-8';
+  try {
+    return new TextDecoder(charset).decode(body);
+  } catch {
+    return new TextDecoder('utf-8').decode(body);
+  }
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+const cleanText = (text: string | undefined, maxLength: number): string | undefined => {
+  const cleaned = text ? decodeEntities(text).replace(/\s+/g, ' ').trim() : '';
+  return cleaned ? cleaned.slice(0, maxLength) : undefined;
+};
+
+const parseAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([a-zA-Z_:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag))) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+};
+
+const resolveHttpUrl = (value: string | undefined, base: URL): string | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    const url = new URL(decodeEntities(value.trim()), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/** OpenGraph and Twitter card metadata, with `<title>` as a fallback. */
+const parseHtml = (html: string, pageUrl: URL): { preview: LinkPreview; oembedUrl?: string } => {
+  const meta: Record<string, string> = {};
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property ?? attributes.name)?.toLowerCase();
+    if (key && attributes.content !== undefined && meta[key] === undefined) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  let oembedUrl: string | undefined;
+  for (const [tag] of html.matchAll(/<link\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    if (
+      attributes.rel?.toLowerCase() === 'alternate' &&
+      attributes.type?.toLowerCase() === 'application/json+oembed'
+    ) {
+      oembedUrl = resolveHttpUrl(attributes.href, pageUrl);
+      break;
+    }
+  }
+
+  const title = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+
+  return {
+    preview: {
+      url: pageUrl.href,
+      title: cleanText(meta['og:title'] ?? meta['twitter:title'] ?? title, MAX_TITLE_LENGTH),
+      description: cleanText(
+        meta['og:description'] ?? meta['twitter:description'] ?? meta.description,
+        MAX_DESCRIPTION_LENGTH
+      ),
+      image: resolveHttpUrl(meta['og:image'] ?? meta['og:image:url'] ?? meta['twitter:image'], pageUrl),
+      siteName: cleanText(meta['og:site_name'], MAX_TITLE_LENGTH),
+    },
+    oembedUrl,
+  };
+};
+
+/**
+ * Fetches pages over HTTP(S) with SSRF protection: only public addresses,
+ * at most MAX_REDIRECTS redirects (each checked again), one deadline for
+ * the whole preview and a cap on the bytes read from each response.
+ */
+export const createHttpLinkPreviewFetcher = ({
+  timeoutMs,
+  maxBytes,
+  allowPrivateAddresses = false,
+}: HttpLinkPreviewOptions): LinkPreviewFetcher => {
+  const lookup = createSafeLookup(allowPrivateAddresses);
+
+  const request = (url: URL, accept: string, signal: AbortSignal): Promise<http.IncomingMessage> => {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return Promise.reject(new Error(`Unsupported protocol ${url.protocol}`));
+    }
+    // Literal IPs skip the lookup, so check them here.
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(hostname) && !allowPrivateAddresses && !isPublicAddress(hostname)) {
+      return Promise.reject(new Error(`Refusing to connect to ${hostname}`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const client = url.protocol === 'https:' ? https : http;
+      const req = client.get(url, { lookup, signal, headers: { 'User-Agent': USER_AGENT, Accept: accept } }, resolve);
+      req.on('error', reject);
+    });
+  };
+
+  const readBody = (response: http.IncomingMessage): Promise<Buffer> =>
+    new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+        size += chunk.length;
+        if (size >= maxBytes) {
+          // Metadata lives in the head, so a truncated page is still useful.
+          response.destroy();
+          resolve(Buffer.concat(chunks).subarray(0, maxBytes));
+        }
+      });
+      response.on('end', () => resolve(Buffer.concat(chunks)));
+      response.on('error', reject);
+    });
+
+  const fetchDocument = async (start: URL, accept: string, signal: AbortSignal): Promise<FetchedDocument | null> => {
+    let url = start;
+    for (let redirects = 0; ; redirects += 1) {
+      const response = await request(url, accept, signal);
+      const status = response.statusCode ?? 0;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          return null;
+        }
+        url = new URL(response.headers.location, url);
+        continue;
+      }
+
+      const contentType = response.headers['content-type'] ?? '';
+      if (status < 200 || status >= 300) {
+        response.resume();
+        return null;
+      }
+      return { url, contentType, body: decodeBody(await readBody(response), contentType) };
+    }
+  };
+
+  const fetchOembed = async (url: string, signal: AbortSignal): Promise<Partial<LinkPreview>> => {
+    const document = await fetchDocument(new URL(url), 'application/json', signal);
+    if (!document) {
+      return {};
+    }
+    const data = JSON.parse(document.body) as Record<string, unknown>;
+    const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+    return {
+      title: cleanText(text(data.title), MAX_TITLE_LENGTH),
+      image: resolveHttpUrl(text(data.thumbnail_url), document.url),
+      siteName: cleanText(text(data.provider_name), MAX_TITLE_LENGTH),
+    };
+  };
+
+  return {
+    async fetch(url) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const document = await fetchDocument(new URL(url), 'text/html,application/xhtml+xml', controller.signal);
+        if (!document || !/html/i.test(document.contentType)) {
+          return null;
+        }
+
+        const { preview, oembedUrl } = parseHtml(document.body, document.url);
+        if (oembedUrl && (!preview.title || !preview.image)) {
+          const oembed = await fetchOembed(oembedUrl, controller.signal).catch(() => ({}) as Partial<LinkPreview>);
+          preview.title = preview.title ?? oembed.title;
+          preview.image = preview.image ?? oembed.image;
+          preview.siteName = preview.siteName ?? oembed.siteName;
+        }
+
+        if (!preview.title && !preview.description && !preview.image) {
+          return null;
+        }
+        // The link as sent, so clients can match it to the message text.
+        return { ...preview, url, siteName: preview.siteName ?? document.url.hostname };
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+};
+
+let fetcher: LinkPreviewFetcher | null = null;
+const cache = new Map<string, { preview: LinkPreview | null; expiresAt: number }>();
+const inFlight = new Map<string, Promise<LinkPreview | null>>();
+
+/** Replaces the active fetcher, e.g. with one allowed to reach a local stub server. */
+export const setLinkPreviewFetcher = (customFetcher: LinkPreviewFetcher): void => {
+  fetcher = customFetcher;
+  cache.clear();
+};
+
+const getFetcher = (): LinkPreviewFetcher => {
+  if (!fetcher) {
+    fetcher = createHttpLinkPreviewFetcher({
+      timeoutMs: linkPreviewConfig.timeoutMs,
+      maxBytes: linkPreviewConfig.maxBytes,
+    });
+  }
+  return fetcher;
+};
+
+/**
+ * Preview for `url`, cached in memory by URL. Concurrent requests for the
+ * same URL share one fetch, and failures resolve to `null`.
+ */
+export const getLinkPreview = async (url: string): Promise<LinkPreview | null> => {
+  const cached = cache.get(url);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.preview;
+  }
+
+  let pending = inFlight.get(url);
+  if (!pending) {
+    pending = getFetcher()
+      .fetch(url)
+      .catch(() => null)
+      .then((preview) => {
+        const ttl = preview ? linkPreviewConfig.cacheTtlMinutes * 60 * 1000 : NEGATIVE_CACHE_MS;
+        cache.delete(url);
+        cache.set(url, { preview, expiresAt: Date.now() + ttl });
+        // Maps iterate in insertion order, so the first key is the oldest.
+        if (cache.size > MAX_CACHE_ENTRIES) {
+          cache.delete(cache.keys().next().value as string);
+        }
+        return preview;
+      })
+      .finally(() => inFlight.delete(url));
+    inFlight.set(url, pending);
+  }
+  return pending;
+};
+
+/** The first http(s) link in a message, without trailing punctuation. */
+export const extractFirstUrl = (text: string): string | null => {
+  const match = /\bhttps?:\/\/[^\s<>"]+/i.exec(text);
+  if (!match) {
+    return null;
+  }
+  const candidate = match[0].replace(/[.,;:!?'")\]}]+$/, '');
+  try {
+    return new URL(candidate).href;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,44 @@
+import { User, IUser } from '../models/User';
+import { rateLimitConfig } from '../config/rateLimit';
+
+/**
+ * Milliseconds until a locked account can log in again, or 0. Expects the
+ * user to be loaded with `+lockUntil`.
+ */
+export const getLockoutRemainingMs = (user: IUser): number =>
+  user.lockUntil ? Math.max(0, user.lockUntil.getTime() - Date.now()) : 0;
+
+/**
+ * Counts a failed password or MFA code attempt. Once the threshold is reached every
+ * further failure locks the account, doubling the lock each time up to the
+ * configured maximum. Returns the new lock duration in milliseconds, or 0.
+ */
+export const recordFailedLogin = async (user: IUser): Promise<number> => {
+  const updated = await User.findByIdAndUpdate(
+    user._id,
+    { $inc: { failedLoginAttempts: 1 } },
+    { new: true }
+  ).select('+failedLoginAttempts');
+
+  const attempts = updated?.failedLoginAttempts ?? 0;
+  const { lockoutThreshold, lockoutBaseMinutes, lockoutMaxMinutes } = rateLimitConfig;
+  if (attempts < lockoutThreshold) return 0;
+
+  const minutes = Math.min(
+    lockoutBaseMinutes * 2 ** (attempts - lockoutThreshold),
+    lockoutMaxMinutes
+  );
+  const lockMs = minutes * 60 * 1000;
+
+  await User.updateOne({ _id: user._id }, { lockUntil: new Date(Date.now() + lockMs) });
+  return lockMs;
+};
+
+export const clearFailedLogins = async (user: IUser): Promise<void> => {
+  if (!user.failedLoginAttempts && !user.lockUntil) return;
+
+  await User.updateOne(
+    { _id: user._id },
+    { $set: { failedLoginAttempts: 0 }, $unset: { lockUntil: 1 } }
+  );
+};
@@ -0,0 +1,63 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export const createConsoleTransport = (): MailTransport => ({
+  async send(message) {
+    console.log(
+      `📧 Mail to ${message.to} from ${message.from}\nSubject: ${message.subject}\n\n${message.text}\n`
+    );
+  },
+});
+
+export const createFileTransport = (directory: string): MailTransport => ({
+  async send(message) {
+    await fs.mkdir(directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@.-]/g, '_')}.json`;
+    await fs.writeFile(
+      path.join(directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  },
+});
+
+let transport: MailTransport | null = null;
+
+const createTransportFromEnv = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'file':
+      return createFileTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'mail'));
+    case 'console':
+    default:
+      return createConsoleTransport();
+  }
+};
+
+/**
+ * Replaces the active transport, e.g. with an SMTP or provider-backed
+ * implementation, or with a capturing stub in tests.
+ */
+export const setMailTransport = (customTransport: MailTransport): void => {
+  transport = customTransport;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+
+  await transport.send({
+    from: process.env.MAIL_FROM || 'ClashChat <no-reply@clashchat.local>',
+    ...message,
+  });
+};
@@ -0,0 +1,966 @@
+import mongoose from 'mongoose';
+import { Message, IMessage, IMessageForward, DELETED_MESSAGE_CONTENT } from '../models/Message';
+import { User, PUBLIC_USER_FIELDS } from '../models/User';
+import { Attachment } from '../models/Attachment';
+import { Friendship, IFriendship, DISAPPEARING_TIMERS } from '../models/Friendship';
+import { Conversation, IConversationMember } from '../models/Conversation';
+import { messagingConfig } from '../config/messaging';
+import { emitToUser, isUserOnline } from '../socket/emitter';
+import { findAcceptedFriendship } from './friendshipHelper';
+import {
+  findMembership,
+  getMemberHistoryFilters,
+  memberHistoryFilter,
+  visibleTo,
+  getDirectReceiverId,
+  recordMessage,
+  recordDirectRead,
+  syncLastMessage,
+  refreshMemberSummary,
+  rebuildDirectConversation,
+} from './conversationHelper';
+import { toAttachmentJson, deleteAttachment, isImageMimeType, copyAttachment } from './attachments';
+import { extractFirstUrl, getLinkPreview } from './linkPreview';
+import { linkPreviewConfig } from '../config/linkPreview';
+
+/**
+ * A message operation the caller is not allowed to perform. Shared by the
+ * HTTP controllers and the socket handlers, which turn it into a response
+ * or an `error` event.
+ */
+export class MessageError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'MessageError';
+  }
+}
+
+const MESSAGE_TYPES = ['text', 'image', 'file'];
+const REPLY_SNIPPET_LENGTH = 100;
+const MAX_FORWARD_MESSAGES = 20;
+const MAX_FORWARD_TARGETS = 10;
+
+/**
+ * Everyone who can see a message: both friends for a direct message, the
+ * current members who had joined by the time it was sent for a group message.
+ */
+export const getParticipantIds = async (message: IMessage): Promise<string[]> => {
+  if (message.conversation) {
+    const conversation = await Conversation.findById(message.conversation._id).select('members');
+    return conversation
+      ? conversation.members
+          .filter((member) => member.joinedAt <= message.createdAt)
+          .map((member) => member.user.toString())
+      : [];
+  }
+  return [message.sender._id, message.receiver?._id]
+    .filter((id): id is mongoose.Types.ObjectId => Boolean(id))
+    .map((id) => id.toString());
+};
+
+export const canAccessMessage = async (message: IMessage, userId: string): Promise<boolean> =>
+  (await getParticipantIds(message)).includes(userId);
+
+/** Pushes a live event to every device of every participant. */
+export const emitToParticipants = async (
+  message: IMessage,
+  event: string,
+  payload: unknown
+): Promise<void> => {
+  (await getParticipantIds(message)).forEach((participantId) => emitToUser(participantId, event, payload));
+};
+
+/** The friend on the other side of a direct message. */
+export const getOtherParticipantId = (message: IMessage, userId: string): string =>
+  message.sender._id.toString() === userId
+    ? getDirectReceiverId(message)
+    : message.sender._id.toString();
+
+const conversationFilter = (userId: string, otherUserId: string) => ({
+  $or: [
+    { sender: userId, receiver: otherUserId },
+    { sender: otherUserId, receiver: userId },
+  ],
+});
+
+export interface NewMessage {
+  senderId: string;
+  /** A friend, for a direct message. Exclusive with `conversationId`. */
+  receiverId?: unknown;
+  /** A group the sender is a member of. */
+  conversationId?: unknown;
+  content: unknown;
+  messageType?: unknown;
+  replyTo?: unknown;
+  attachmentId?: unknown;
+  /** Set by `forwardMessages`; never taken from client input. */
+  forwardedFrom?: IMessageForward;
+}
+
+export interface ValidatedMessage {
+  /** Direct messages only, with the friendship they are sent in. */
+  receiverId?: string;
+  friendship?: IFriendship;
+  /** Group messages only. */
+  conversationId?: string;
+  text: string;
+  messageType: IMessage['messageType'];
+  replyTo?: string;
+  attachmentId?: string;
+}
+
+/**
+ * Checks a message from `senderId` without storing it: receiver must be an
+ * accepted, non-deleted friend, or the sender must be a member of the
+ * group, and a quoted message must belong to the same conversation.
+ */
+export const validateNewMessage = async ({
+  senderId,
+  receiverId,
+  conversationId,
+  content,
+  messageType = 'text',
+  replyTo,
+  attachmentId,
+}: NewMessage): Promise<ValidatedMessage> => {
+  const toGroup = conversationId !== undefined && conversationId !== null && conversationId !== '';
+  if (toGroup) {
+    if (typeof conversationId !== 'string' || !mongoose.Types.ObjectId.isValid(conversationId)) {
+      throw new MessageError('Please provide a valid conversation ID');
+    }
+    if (receiverId !== undefined && receiverId !== null && receiverId !== '') {
+      throw new MessageError('Provide either a receiver ID or a conversation ID, not both');
+    }
+  } else {
+    if (typeof receiverId !== 'string' || !mongoose.Types.ObjectId.isValid(receiverId)) {
+      throw new MessageError('Please provide a valid receiver ID');
+    }
+
+    if (receiverId === senderId) {
+      throw new MessageError('Cannot send message to yourself');
+    }
+  }
+
+  const hasAttachment = attachmentId !== undefined && attachmentId !== null && attachmentId !== '';
+  if (hasAttachment && (typeof attachmentId !== 'string' || !mongoose.Types.ObjectId.isValid(attachmentId))) {
+    throw new MessageError('Please provide a valid attachment ID');
+  }
+
+  const text = typeof content === 'string' ? content.trim() : '';
+  if (!text && !hasAttachment) {
+    throw new MessageError('Message content is required');
+  }
+
+  if (typeof messageType !== 'string' || !MESSAGE_TYPES.includes(messageType)) {
+    throw new MessageError('Invalid message type');
+  }
+
+  if (messageType !== 'text' && !hasAttachment) {
+    throw new MessageError('Image and file messages need an uploaded attachment');
+  }
+
+  let friendship: IFriendship | null = null;
+  let groupHistory = {};
+  if (toGroup) {
+    const conversation = await findMembership(conversationId as string, senderId);
+    if (!conversation) {
+      throw new MessageError('You are not a member of this group', 403);
+    }
+    groupHistory = memberHistoryFilter(conversation, senderId);
+  } else {
+    friendship = await findAcceptedFriendship(senderId, receiverId as string);
+    if (!friendship) {
+      throw new MessageError('You can only send messages to friends', 403);
+    }
+
+    if (await User.exists({ _id: receiverId, deletedAt: { $exists: true } })) {
+      throw new MessageError('This account has been deleted', 410);
+    }
+  }
+
+  const hasReply = replyTo !== undefined && replyTo !== null && replyTo !== '';
+  if (hasReply) {
+    if (typeof replyTo !== 'string' || !mongoose.Types.ObjectId.isValid(replyTo)) {
+      throw new MessageError('Please provide a valid reply message ID');
+    }
+
+    const original = await Message.findOne({
+      _id: replyTo,
+      ...(toGroup ? groupHistory : conversationFilter(senderId, receiverId as string)),
+    });
+    if (!original) {
+      throw new MessageError('The quoted message is not part of this conversation');
+    }
+    if (original.deletedAt) {
+      throw new MessageError('Cannot reply to a deleted message');
+    }
+    if (original.messageType === 'system') {
+      throw new MessageError('Cannot reply to a system message');
+    }
+  }
+
+  return {
+    ...(toGroup
+      ? { conversationId: conversationId as string }
+      : { receiverId: receiverId as string, friendship: friendship as IFriendship }),
+    text,
+    messageType: messageType as IMessage['messageType'],
+    ...(hasReply ? { replyTo: replyTo as string } : {}),
+    ...(hasAttachment ? { attachmentId: attachmentId as string } : {}),
+  };
+};
+
+/**
+ * Validates and stores a message from `senderId`. This is the single send
+ * path for HTTP, sockets and scheduled messages. An attachment must be an
+ * unsent upload of the sender; it decides the message type, and `content`
+ * becomes an optional caption.
+ *
+ * `messageId` lets a caller retry a send without duplicating it: an
+ * attachment already claimed for that ID can be claimed again.
+ */
+export const createMessage = async (
+  input: NewMessage,
+  messageId = new mongoose.Types.ObjectId()
+): Promise<IMessage> => {
+  const { senderId, forwardedFrom } = input;
+  const { receiverId, conversationId, friendship, text, messageType, replyTo, attachmentId } =
+    await validateNewMessage(input);
+  // Groups have no disappearing-messages setting.
+  const lifetimeMs = friendship ? DISAPPEARING_TIMERS[friendship.disappearingTimer] ?? 0 : 0;
+
+  let attachment = null;
+  if (attachmentId) {
+    // Claiming the upload atomically stops it from being sent twice.
+    attachment = await Attachment.findOneAndUpdate(
+      {
+        _id: attachmentId,
+        uploader: senderId,
+        $or: [{ message: { $exists: false } }, { message: messageId }],
+      },
+      { $set: { message: messageId } },
+      { new: true }
+    );
+    if (!attachment) {
+      throw new MessageError('Attachment not found or already sent', 404);
+    }
+  }
+
+  let message: IMessage;
+  try {
+    message = await Message.create({
+      _id: messageId,
+      sender: senderId,
+      ...(conversationId ? { conversation: conversationId } : { receiver: receiverId }),
+      content: text || attachment?.name,
+      messageType: attachment ? (isImageMimeType(attachment.mimeType) ? 'image' : 'file') : messageType,
+      status: 'sent',
+      ...(replyTo ? { replyTo } : {}),
+      ...(attachment ? { attachment: attachment._id } : {}),
+      ...(forwardedFrom ? { forwardedFrom } : {}),
+      ...(lifetimeMs ? { expiresAt: new Date(Date.now() + lifetimeMs) } : {}),
+    });
+  } catch (error) {
+    if (attachment) {
+      await Attachment.updateOne({ _id: attachment._id }, { $unset: { message: 1 } });
+    }
+    throw error;
+  }
+
+  await recordMessage(message, friendship);
+  await message.populate('sender receiver', PUBLIC_USER_FIELDS);
+  return message;
+};
+
+export interface ReplyPreview {
+  _id: mongoose.Types.ObjectId;
+  sender: unknown;
+  snippet: string | null;
+  messageType: IMessage['messageType'];
+  deleted: boolean;
+}
+
+const toReplyPreview = (id: mongoose.Types.ObjectId, original?: IMessage): ReplyPreview => {
+  if (!original || original.deletedAt) {
+    return {
+      _id: id,
+      sender: original?.sender ?? null,
+      snippet: null,
+      messageType: original?.messageType ?? 'text',
+      deleted: true,
+    };
+  }
+
+  return {
+    _id: id,
+    sender: original.sender,
+    snippet:
+      original.messageType === 'text'
+        ? original.content.slice(0, REPLY_SNIPPET_LENGTH)
+        : null,
+    messageType: original.messageType,
+    deleted: false,
+  };
+};
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+  reactedByMe?: boolean;
+}
+
+/** Reactions grouped by emoji, in the order each emoji was first used. */
+export const summarizeReactions = (message: IMessage, viewerId?: string): ReactionSummary[] => {
+  const byEmoji = new Map<string, ReactionSummary>();
+
+  for (const reaction of message.reactions ?? []) {
+    const summary = byEmoji.get(reaction.emoji) ?? { emoji: reaction.emoji, count: 0, userIds: [] };
+    summary.count += 1;
+    summary.userIds.push(reaction.user.toString());
+    byEmoji.set(reaction.emoji, summary);
+  }
+
+  const summaries = Array.from(byEmoji.values());
+  if (viewerId) {
+    summaries.forEach((summary) => {
+      summary.reactedByMe = summary.userIds.includes(viewerId);
+    });
+  }
+  return summaries;
+};
+
+export interface GroupReceipts {
+  status: IMessage['status'];
+  deliveredTo: mongoose.Types.ObjectId[];
+  readBy: mongoose.Types.ObjectId[];
+}
+
+/**
+ * Receipts of a group message from the members' watermarks. Members who
+ * joined after it was sent are left out; it counts as delivered or read
+ * once every other member got that far.
+ */
+const getGroupReceipts = (message: IMessage, members: IConversationMember[]): GroupReceipts => {
+  const sentAt = message.createdAt;
+  const recipients = members.filter(
+    (member) => !member.user.equals(message.sender._id) && member.joinedAt <= sentAt
+  );
+  const readBy = recipients.filter((member) => member.lastReadAt && member.lastReadAt >= sentAt);
+  const deliveredTo = recipients.filter(
+    (member) => readBy.includes(member) || (member.lastDeliveredAt && member.lastDeliveredAt >= sentAt)
+  );
+
+  let status: IMessage['status'] = 'sent';
+  if (recipients.length && readBy.length === recipients.length) {
+    status = 'read';
+  } else if (recipients.length && deliveredTo.length === recipients.length) {
+    status = 'delivered';
+  }
+  return {
+    status,
+    deliveredTo: deliveredTo.map((member) => member.user),
+    readBy: readBy.map((member) => member.user),
+  };
+};
+
+/**
+ * Serializes messages for clients: each `replyTo` ID becomes a compact
+ * preview of the quoted message (quoted messages deleted for everyone keep
+ * their sender but lose their content), attachment IDs become their public
+ * metadata, the original sender of a forwarded message is populated, raw
+ * reactions become per-emoji counts, and group messages get per-member
+ * receipts. With `viewerId`, each count also says whether the viewer reacted,
+ * and quoted messages the viewer can no longer see are shown as unavailable.
+ */
+export const serializeMessages = async (
+  messages: IMessage[],
+  viewerId?: string
+): Promise<Record<string, unknown>[]> => {
+  const replyIds = messages
+    .map((message) => message.replyTo?._id)
+    .filter((id): id is mongoose.Types.ObjectId => Boolean(id));
+
+  const originals = replyIds.length
+    ? await Message.find({ _id: { $in: replyIds }, ...(viewerId ? visibleTo(viewerId) : {}) })
+        .select('sender content messageType deletedAt')
+        .populate('sender', PUBLIC_USER_FIELDS)
+    : [];
+  const originalsById = new Map(originals.map((original) => [original._id.toString(), original]));
+
+  const attachmentIds = messages
+    .map((message) => message.attachment?._id)
+    .filter((id): id is mongoose.Types.ObjectId => Boolean(id));
+  const attachments = attachmentIds.length
+    ? await Attachment.find({ _id: { $in: attachmentIds } })
+    : [];
+  const attachmentsById = new Map(
+    attachments.map((attachment) => [attachment._id.toString(), attachment])
+  );
+
+  const forwardSenderIds = messages
+    .map((message) => message.forwardedFrom?.sender)
+    .filter((id): id is mongoose.Types.ObjectId => Boolean(id));
+  const forwardSenders = forwardSenderIds.length
+    ? await User.find({ _id: { $in: forwardSenderIds } }).select(PUBLIC_USER_FIELDS)
+    : [];
+  const forwardSendersById = new Map(forwardSenders.map((user) => [user._id.toString(), user]));
+
+  const conversationIds = messages
+    .map((message) => message.conversation?._id)
+    .filter((id): id is mongoose.Types.ObjectId => Boolean(id));
+  const conversations = conversationIds.length
+    ? await Conversation.find({ _id: { $in: conversationIds } }).select('members')
+    : [];
+  const conversationsById = new Map(
+    conversations.map((conversation) => [conversation._id.toString(), conversation])
+  );
+
+  return messages.map((message) => {
+    const json = message.toJSON() as Record<string, unknown>;
+    json.reactions = summarizeReactions(message, viewerId);
+
+    if (message.conversation) {
+      const conversation = conversationsById.get(message.conversation._id.toString());
+      Object.assign(json, getGroupReceipts(message, conversation?.members ?? []));
+    }
+
+    if (message.forwardedFrom) {
+      json.forwardedFrom = {
+        sender: forwardSendersById.get(message.forwardedFrom.sender.toString()) ?? null,
+        sentAt: message.forwardedFrom.sentAt,
+      };
+    }
+
+    const attachmentId = message.attachment?._id;
+    if (attachmentId) {
+      const attachment = attachmentsById.get(attachmentId.toString());
+      json.attachment = attachment ? toAttachmentJson(attachment) : null;
+    }
+
+    const replyId = message.replyTo?._id;
+    if (replyId) {
+      json.replyTo = toReplyPreview(replyId, originalsById.get(replyId.toString()));
+    }
+    return json;
+  });
+};
+
+/**
+ * Fetches a preview for the first link of a text message in the
+ * background, stores it and pushes `message_updated` to all participants.
+ * Call after the message itself was pushed so clients already know it.
+ */
+export const refreshLinkPreview = (message: IMessage): void => {
+  if (!linkPreviewConfig.enabled || message.messageType !== 'text' || message.deletedAt) {
+    return;
+  }
+
+  const url = extractFirstUrl(message.content);
+  if (!url || message.linkPreview?.url === url) {
+    return;
+  }
+
+  const attach = async () => {
+    const preview = await getLinkPreview(url);
+    if (!preview) {
+      return;
+    }
+
+    // Skipped if the message was edited or deleted while fetching.
+    const updated = await Message.findOneAndUpdate(
+      { _id: message._id, content: message.content, deletedAt: { $exists: false } },
+      { $set: { linkPreview: preview } },
+      { new: true }
+    );
+    if (!updated) {
+      return;
+    }
+
+    await updated.populate('sender receiver', PUBLIC_USER_FIELDS);
+    const [payload] = await serializeMessages([updated]);
+    await emitToParticipants(updated, 'message_updated', payload);
+  };
+
+  attach().catch((error) => console.error(`Link preview failed for message ${message._id}:`, error));
+};
+
+/**
+ * Moves the delivery watermark of the group members who are connected and
+ * pushes `receive_message` to them.
+ */
+const deliverGroupMessage = async (message: IMessage): Promise<Record<string, unknown>> => {
+  const senderId = message.sender._id.toString();
+  const online = (await getParticipantIds(message)).filter(
+    (memberId) => memberId !== senderId && isUserOnline(memberId)
+  );
+
+  if (online.length) {
+    await Conversation.updateOne(
+      { _id: message.conversation },
+      { $max: { 'members.$[member].lastDeliveredAt': message.createdAt } },
+      { arrayFilters: [{ 'member.user': { $in: online.map((id) => new mongoose.Types.ObjectId(id)) } }] }
+    );
+  }
+
+  const [payload] = await serializeMessages([message]);
+  online.forEach((memberId) => emitToUser(memberId, 'receive_message', payload));
+  refreshLinkPreview(message);
+  return payload;
+};
+
+/**
+ * Marks the message delivered and pushes `receive_message` when the
+ * receiver is connected (every connected member, for a group message),
+ * then starts its link preview. Resolves to the serialized message.
+ */
+export const deliverMessage = async (message: IMessage): Promise<Record<string, unknown>> => {
+  if (message.conversation) {
+    return deliverGroupMessage(message);
+  }
+
+  const receiverId = getDirectReceiverId(message);
+  const online = isUserOnline(receiverId);
+
+  if (online) {
+    message.status = 'delivered';
+    await message.save();
+    await syncLastMessage(message);
+  }
+
+  const [payload] = await serializeMessages([message]);
+  if (online) {
+    emitToUser(receiverId, 'receive_message', payload);
+  }
+  refreshLinkPreview(message);
+  return payload;
+};
+
+export interface ReadReceipt {
+  friendId: string;
+  lastReadMessageId: mongoose.Types.ObjectId;
+  /** `createdAt` of the last read message; everything up to it is read. */
+  readAt: Date;
+  /** Messages from the friend this call marked read. */
+  readCount: number;
+  /** Messages from the friend still unread. */
+  unreadCount: number;
+}
+
+/**
+ * Marks every message `friendId` sent to `userId` up to and including
+ * `messageId` as read, in one update. The last read message can be any
+ * message of the chat the user can see, their own included. The friend's
+ * devices get a single `messages_read` event when anything changed.
+ * Fetching history never changes read state; this is the only way.
+ */
+export const markMessagesRead = async (
+  userId: string,
+  friendId: string,
+  messageId: unknown
+): Promise<ReadReceipt> => {
+  if (typeof friendId !== 'string' || !mongoose.Types.ObjectId.isValid(friendId)) {
+    throw new MessageError('Please provide a valid friend ID');
+  }
+
+  if (typeof messageId !== 'string' || !mongoose.Types.ObjectId.isValid(messageId)) {
+    throw new MessageError('Please provide a valid message ID');
+  }
+
+  if (!(await findAcceptedFriendship(userId, friendId))) {
+    throw new MessageError('You can only read messages with friends', 403);
+  }
+
+  const lastRead = await Message.findOne({
+    _id: messageId,
+    ...conversationFilter(userId, friendId),
+    ...visibleTo(userId),
+  }).select('createdAt');
+  if (!lastRead) {
+    throw new MessageError('Message not found', 404);
+  }
+
+  const lastReadMessageId = lastRead._id as mongoose.Types.ObjectId;
+  const { modifiedCount } = await Message.updateMany(
+    {
+      sender: friendId,
+      receiver: userId,
+      status: { $ne: 'read' },
+      // `_id` breaks ties between messages sent in the same millisecond.
+      $or: [
+        { createdAt: { $lt: lastRead.createdAt } },
+        { createdAt: lastRead.createdAt, _id: { $lte: lastReadMessageId } },
+      ],
+    },
+    { $set: { status: 'read' } }
+  );
+  const unreadCount = await recordDirectRead(userId, friendId, lastRead.createdAt);
+
+  if (modifiedCount) {
+    emitToUser(friendId, 'messages_read', {
+      friendId: userId,
+      lastReadMessageId,
+      readAt: lastRead.createdAt,
+    });
+  }
+
+  return {
+    friendId,
+    lastReadMessageId,
+    readAt: lastRead.createdAt,
+    readCount: modifiedCount,
+    unreadCount,
+  };
+};
+
+const toIdList = (value: unknown, max: number, label: string): string[] => {
+  const ids = Array.isArray(value) ? value : [value];
+  if (!ids.length || ids.length > max) {
+    throw new MessageError(`Provide between 1 and ${max} ${label}`);
+  }
+  if (!ids.every((id) => typeof id === 'string' && mongoose.Types.ObjectId.isValid(id))) {
+    throw new MessageError(`Please provide valid ${label}`);
+  }
+  return Array.from(new Set(ids as string[]));
+};
+
+/** Removes the copies already forwarded to a receiver that then failed. */
+const discardForwarded = async (userId: string, receiverId: string, created: IMessage[]): Promise<void> => {
+  if (!created.length) {
+    return;
+  }
+  try {
+    await Message.deleteMany({ _id: { $in: created.map((message) => message._id) } });
+    await Attachment.deleteMany({
+      _id: { $in: created.map((message) => message.attachment).filter((id) => Boolean(id)) },
+    });
+    await rebuildDirectConversation(userId, receiverId);
+  } catch (error) {
+    console.error(`Forward rollback failed for receiver ${receiverId}:`, error);
+  }
+};
+
+export interface ForwardFailure {
+  receiverId: string;
+  error: string;
+  statusCode: number;
+}
+
+/**
+ * Copies messages `userId` can see, from direct chats or groups, into their
+ * conversations with each receiver, oldest first, through `createMessage` so every target gets the
+ * same friendship checks as a normal send. Attachments are copied as new
+ * records sharing the stored file. A receiver that fails is reported and
+ * gets none of the messages, so retrying it sends no duplicates; if every
+ * receiver fails, the first error is thrown. Nothing is delivered yet.
+ */
+export const forwardMessages = async (
+  userId: string,
+  messageIds: unknown,
+  receiverIds: unknown
+): Promise<{ messages: IMessage[]; failed: ForwardFailure[] }> => {
+  const sourceIds = toIdList(messageIds, MAX_FORWARD_MESSAGES, 'message IDs');
+  const targetIds = toIdList(receiverIds, MAX_FORWARD_TARGETS, 'receiver IDs');
+
+  const sources = await Message.find({
+    _id: { $in: sourceIds },
+    $or: [
+      { sender: userId, receiver: { $exists: true } },
+      { receiver: userId },
+      ...(await getMemberHistoryFilters(userId)),
+    ],
+    ...visibleTo(userId),
+  }).sort({ createdAt: 1, _id: 1 });
+
+  if (sources.length !== sourceIds.length) {
+    throw new MessageError('Message not found', 404);
+  }
+  if (sources.some((source) => source.deletedAt)) {
+    throw new MessageError('Deleted messages cannot be forwarded');
+  }
+  if (sources.some((source) => source.messageType === 'system')) {
+    throw new MessageError('System messages cannot be forwarded');
+  }
+
+  const attachmentIds = sources
+    .map((source) => source.attachment)
+    .filter((id): id is mongoose.Types.ObjectId => Boolean(id));
+  const attachments = await Attachment.find({ _id: { $in: attachmentIds } });
+  const attachmentsById = new Map(
+    attachments.map((attachment) => [attachment._id.toString(), attachment])
+  );
+
+  const forwarded: IMessage[] = [];
+  const failed: ForwardFailure[] = [];
+  let firstError: unknown = null;
+
+  for (const receiverId of targetIds) {
+    const created: IMessage[] = [];
+    try {
+      for (const source of sources) {
+        const original = source.attachment
+          ? attachmentsById.get(source.attachment.toString())
+          : undefined;
+        if (source.attachment && !original) {
+          throw new MessageError('An attachment of this message is no longer available', 410);
+        }
+        const copy = original ? await copyAttachment(original, userId) : null;
+
+        try {
+          created.push(
+            await createMessage({
+              senderId: userId,
+              receiverId,
+              content: source.content,
+              messageType: source.messageType,
+              attachmentId: copy?._id.toString(),
+              forwardedFrom: source.forwardedFrom ?? {
+                sender: source.sender,
+                sentAt: source.createdAt,
+              },
+            })
+          );
+        } catch (error) {
+          if (copy) {
+            await Attachment.deleteOne({ _id: copy._id });
+          }
+          throw error;
+        }
+      }
+      forwarded.push(...created);
+    } catch (error) {
+      await discardForwarded(userId, receiverId, created);
+      firstError = firstError ?? error;
+      failed.push({
+        receiverId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: error instanceof MessageError ? error.statusCode : 500,
+      });
+    }
+  }
+
+  if (!forwarded.length) {
+    throw firstError;
+  }
+  return { messages: forwarded, failed };
+};
+
+/**
+ * Replaces the content of a text message sent by `userId`, keeping the
+ * previous content in `editHistory`. Only allowed within the configured
+ * edit window.
+ */
+export const editMessage = async (
+  userId: string,
+  messageId: string,
+  content: unknown
+): Promise<IMessage> => {
+  if (!mongoose.Types.ObjectId.isValid(messageId)) {
+    throw new MessageError('Please provide a valid message ID');
+  }
+
+  const newContent = typeof content === 'string' ? content.trim() : '';
+  if (!newContent) {
+    throw new MessageError('Message content is required');
+  }
+
+  const message = await Message.findById(messageId);
+  if (!message || !(await canAccessMessage(message, userId))) {
+    throw new MessageError('Message not found', 404);
+  }
+
+  if (message.sender.toString() !== userId) {
+    throw new MessageError('You can only edit your own messages', 403);
+  }
+
+  if (message.deletedAt) {
+    throw new MessageError('Deleted messages cannot be edited');
+  }
+
+  if (message.messageType !== 'text') {
+    throw new MessageError('Only text messages can be edited');
+  }
+
+  const windowMs = messagingConfig.editWindowMinutes * 60 * 1000;
+  if (Date.now() - message.createdAt.getTime() > windowMs) {
+    throw new MessageError(
+      `Messages can only be edited within ${messagingConfig.editWindowMinutes} minutes of sending`,
+      403
+    );
+  }
+
+  if (newContent !== message.content) {
+    const editedAt = new Date();
+    // Conditional on the current content so concurrent edits cannot
+    // overwrite each other without leaving a revision behind.
+    const updated = await Message.findOneAndUpdate(
+      { _id: message._id, content: message.content },
+      {
+        $set: { content: newContent, editedAt },
+        // A new preview is fetched for the new content.
+        $unset: { linkPreview: 1 },
+        $push: {
+          editHistory: { content: message.content, createdAt: message.editedAt ?? message.createdAt },
+        },
+      },
+      { new: true }
+    );
+    if (!updated) {
+      throw new MessageError('The message was changed by another request, please retry', 409);
+    }
+    await syncLastMessage(updated);
+    await updated.populate('sender receiver', PUBLIC_USER_FIELDS);
+    return updated;
+  }
+
+  await message.populate('sender receiver', PUBLIC_USER_FIELDS);
+  return message;
+};
+
+export type DeleteScope = 'me' | 'everyone';
+
+/**
+ * "Delete for me" hides the message from `userId` only. "Delete for
+ * everyone" is limited to the sender within the delete window and replaces
+ * the message with a tombstone for everyone, dropping its
+ * previous revisions, its attachment and its pin.
+ */
+export const deleteMessage = async (
+  userId: string,
+  messageId: string,
+  scope: unknown = 'me'
+): Promise<{ message: IMessage; scope: DeleteScope }> => {
+  if (!mongoose.Types.ObjectId.isValid(messageId)) {
+    throw new MessageError('Please provide a valid message ID');
+  }
+
+  if (scope !== 'me' && scope !== 'everyone') {
+    throw new MessageError('Scope must be "me" or "everyone"');
+  }
+
+  const message = await Message.findOne({ _id: messageId, ...visibleTo(userId) });
+  if (!message || !(await canAccessMessage(message, userId))) {
+    throw new MessageError('Message not found', 404);
+  }
+
+  if (scope === 'me') {
+    await Message.updateOne({ _id: message._id }, { $addToSet: { deletedFor: userId } });
+    await refreshMemberSummary(message, userId);
+    return { message, scope };
+  }
+
+  if (message.sender.toString() !== userId || message.messageType === 'system') {
+    throw new MessageError('You can only delete your own messages for everyone', 403);
+  }
+
+  if (!message.deletedAt) {
+    const windowMs = messagingConfig.deleteWindowMinutes * 60 * 1000;
+    if (Date.now() - message.createdAt.getTime() > windowMs) {
+      throw new MessageError(
+        `Messages can only be deleted for everyone within ${messagingConfig.deleteWindowMinutes} minutes of sending`,
+        403
+      );
+    }
+
+    message.content = DELETED_MESSAGE_CONTENT;
+    message.messageType = 'text';
+    message.deletedAt = new Date();
+    message.editHistory = undefined;
+    message.linkPreview = undefined;
+    message.reactions = [];
+    const attachmentId = message.attachment;
+    message.attachment = undefined;
+    await message.save();
+    await syncLastMessage(message);
+
+    const attachment = attachmentId ? await Attachment.findById(attachmentId) : null;
+    if (attachment) {
+      await deleteAttachment(attachment);
+    }
+
+    if (message.receiver) {
+      await Friendship.updateOne(
+        {
+          $or: [
+            { requester: message.sender, recipient: message.receiver },
+            { requester: message.receiver, recipient: message.sender },
+          ],
+        },
+        { $pull: { pins: { message: message._id } } }
+      );
+    }
+  }
+
+  return { message, scope };
+};
+
+// A short run of emoji (including skin tones, ZWJ sequences and flags), no text.
+const EMOJI_PATTERN = /^(?:\p{Extended_Pictographic}|\p{Regional_Indicator}|\p{Emoji_Modifier}|\u200d|\ufe0f)+$/u;
+const MAX_EMOJI_LENGTH = 32;
+
+export type ReactionAction = 'add' | 'remove';
+
+/**
+ * Adds or removes `userId`'s reaction with `emoji`. Adding is idempotent:
+ * a user has at most one reaction per emoji on a message.
+ */
+export const reactToMessage = async (
+  userId: string,
+  messageId: string,
+  emoji: unknown,
+  action: ReactionAction
+): Promise<IMessage> => {
+  if (!mongoose.Types.ObjectId.isValid(messageId)) {
+    throw new MessageError('Please provide a valid message ID');
+  }
+
+  if (typeof emoji !== 'string' || emoji.length > MAX_EMOJI_LENGTH || !EMOJI_PATTERN.test(emoji)) {
+    throw new MessageError('Please provide a single emoji');
+  }
+
+  const message = await Message.findOne({ _id: messageId, ...visibleTo(userId) });
+  if (!message || !(await canAccessMessage(message, userId))) {
+    throw new MessageError('Message not found', 404);
+  }
+
+  if (message.deletedAt) {
+    throw new MessageError('Cannot react to a deleted message');
+  }
+
+  if (message.messageType === 'system') {
+    throw new MessageError('Cannot react to a system message');
+  }
+
+  const update =
+    action === 'add'
+      ? Message.findOneAndUpdate(
+          { _id: message._id, reactions: { $not: { $elemMatch: { user: userId, emoji } } } },
+          { $push: { reactions: { emoji, user: userId, createdAt: new Date() } } },
+          { new: true }
+        )
+      : Message.findOneAndUpdate(
+          { _id: message._id },
+          { $pull: { reactions: { user: userId, emoji } } },
+          { new: true }
+        );
+
+  // No match when adding means the reaction already exists.
+  return (await update) ?? message;
+};
+
+/**
+ * Tells every participant about a reaction change. Each gets the counts
+ * with their own `reactedByMe` flags.
+ */
+export const emitReactionUpdate = async (
+  message: IMessage,
+  change: { userId: string; emoji: string; action: ReactionAction }
+): Promise<void> => {
+  (await getParticipantIds(message)).forEach((participantId) => {
+    emitToUser(participantId, 'reaction_updated', {
+      messageId: message._id,
+      ...change,
+      reactions: summarizeReactions(message, participantId),
+    });
+  });
+};
@@ -0,0 +1,175 @@
+import crypto, { JsonWebKey } from 'crypto';
+import jwt, { Algorithm } from 'jsonwebtoken';
+import { OidcProviderConfig } from '../config/oidc';
+
+export class OidcError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+export interface IdTokenClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  preferred_username?: string;
+  picture?: string;
+  nonce?: string;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+const SIGNING_ALGORITHMS: Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'];
+
+const discoveryCache = new Map<string, DiscoveryDocument>();
+const jwksCache = new Map<string, Jwk[]>();
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  } catch (error) {
+    throw new OidcError(
+      `Identity provider unreachable: ${error instanceof Error ? error.message : 'unknown error'}`,
+      502
+    );
+  }
+
+  if (!response.ok) {
+    throw new OidcError(`Identity provider returned ${response.status} for ${url}`, 502);
+  }
+
+  return (await response.json()) as T;
+};
+
+const getDiscovery = async (provider: OidcProviderConfig): Promise<DiscoveryDocument> => {
+  const cached = discoveryCache.get(provider.issuer);
+  if (cached) return cached;
+
+  const document = await fetchJson<DiscoveryDocument>(
+    `${provider.issuer}/.well-known/openid-configuration`
+  );
+  // A discovery document naming another issuer would let that issuer's
+  // tokens pass verification below.
+  if (typeof document.issuer !== 'string' || document.issuer.replace(/\/$/, '') !== provider.issuer) {
+    throw new OidcError('Identity provider discovery document names a different issuer', 502);
+  }
+  discoveryCache.set(provider.issuer, document);
+  return document;
+};
+
+const getSigningKey = async (jwksUri: string, kid?: string): Promise<crypto.KeyObject> => {
+  const findKey = (keys: Jwk[] | undefined) =>
+    keys?.find((key) => (kid ? key.kid === kid : true) && key.use !== 'enc');
+
+  let key = findKey(jwksCache.get(jwksUri));
+  if (!key) {
+    // Unknown kid: the provider may have rotated its keys.
+    const { keys } = await fetchJson<{ keys: Jwk[] }>(jwksUri);
+    jwksCache.set(jwksUri, keys);
+    key = findKey(keys);
+  }
+
+  if (!key) {
+    throw new OidcError('No matching signing key for ID token', 502);
+  }
+
+  return crypto.createPublicKey({ key, format: 'jwk' });
+};
+
+const base64Url = (buffer: Buffer): string => {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const createPkcePair = (): { codeVerifier: string; codeChallenge: string } => {
+  const codeVerifier = base64Url(crypto.randomBytes(32));
+  const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+  return { codeVerifier, codeChallenge };
+};
+
+export const buildAuthorizationUrl = async (
+  provider: OidcProviderConfig,
+  params: { state: string; nonce: string; codeChallenge: string }
+): Promise<string> => {
+  const discovery = await getDiscovery(provider);
+  const url = new URL(discovery.authorization_endpoint);
+
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: provider.redirectUri,
+    scope: provider.scopes,
+    state: params.state,
+    nonce: params.nonce,
+    code_challenge: params.codeChallenge,
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return url.toString();
+};
+
+/**
+ * Redeems an authorization code and returns the verified ID token claims.
+ */
+export const exchangeCodeForClaims = async (
+  provider: OidcProviderConfig,
+  params: { code: string; codeVerifier: string; nonce: string }
+): Promise<IdTokenClaims> => {
+  const discovery = await getDiscovery(provider);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: provider.redirectUri,
+    client_id: provider.clientId,
+    code_verifier: params.codeVerifier,
+  });
+  if (provider.clientSecret) {
+    body.set('client_secret', provider.clientSecret);
+  }
+
+  const tokens = await fetchJson<{ id_token?: string }>(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: body.toString(),
+  });
+
+  if (!tokens.id_token) {
+    throw new OidcError('Identity provider did not return an ID token', 502);
+  }
+
+  const header = jwt.decode(tokens.id_token, { complete: true })?.header;
+  const key = await getSigningKey(discovery.jwks_uri, header?.kid);
+
+  let claims: IdTokenClaims;
+  try {
+    claims = jwt.verify(tokens.id_token, key, {
+      algorithms: SIGNING_ALGORITHMS,
+      audience: provider.clientId,
+      issuer: discovery.issuer,
+    }) as IdTokenClaims;
+  } catch (error) {
+    throw new OidcError(
+      `Invalid ID token: ${error instanceof Error ? error.message : 'verification failed'}`
+    );
+  }
+
+  if (claims.nonce !== params.nonce) {
+    throw new OidcError('Invalid ID token: nonce mismatch');
+  }
+
+  return claims;
+};
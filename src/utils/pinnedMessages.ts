@@ -0,0 +1,133 @@
+import mongoose from 'mongoose';
+import { Message, IMessage } from '../models/Message';
+import { Friendship, IPinnedMessage } from '../models/Friendship';
+import { PUBLIC_USER_FIELDS } from '../models/User';
+import { messagingConfig } from '../config/messaging';
+import {
+  MessageError,
+  canAccessMessage,
+  getOtherParticipantId,
+  serializeMessages,
+} from './messageHelper';
+import { findAcceptedFriendship } from './friendshipHelper';
+import { visibleTo, getDirectReceiverId } from './conversationHelper';
+import { emitToUser } from '../socket/emitter';
+
+export type PinAction = 'pin' | 'unpin';
+
+/**
+ * Pins or unpins a message for both participants. Either friend can do
+ * either; pinning is idempotent and limited per conversation.
+ */
+export const changePin = async (
+  userId: string,
+  messageId: string,
+  action: PinAction
+): Promise<{ message: IMessage; pin: IPinnedMessage | null }> => {
+  if (!mongoose.Types.ObjectId.isValid(messageId)) {
+    throw new MessageError('Please provide a valid message ID');
+  }
+
+  const message = await Message.findOne({ _id: messageId, ...visibleTo(userId) });
+  if (!message || !(await canAccessMessage(message, userId))) {
+    throw new MessageError('Message not found', 404);
+  }
+
+  if (message.conversation) {
+    throw new MessageError('Messages can only be pinned in direct chats');
+  }
+
+  const friendship = await findAcceptedFriendship(userId, getOtherParticipantId(message, userId));
+  if (!friendship) {
+    throw new MessageError('You can only pin messages in conversations with friends', 403);
+  }
+
+  if (action === 'unpin') {
+    await Friendship.updateOne({ _id: friendship._id }, { $pull: { pins: { message: message._id } } });
+    return { message, pin: null };
+  }
+
+  if (message.deletedAt) {
+    throw new MessageError('Deleted messages cannot be pinned');
+  }
+  if (message.messageType === 'system') {
+    throw new MessageError('System messages cannot be pinned');
+  }
+
+  const maxPins = messagingConfig.maxPinnedMessages;
+  // The size check and the push happen in one update so concurrent pins
+  // cannot exceed the limit.
+  const updated = await Friendship.findOneAndUpdate(
+    {
+      _id: friendship._id,
+      'pins.message': { $ne: message._id },
+      $expr: { $lt: [{ $size: { $ifNull: ['$pins', []] } }, maxPins] },
+    },
+    { $push: { pins: { message: message._id, pinnedBy: userId, pinnedAt: new Date() } } },
+    { new: true }
+  );
+
+  const current = updated ?? (await Friendship.findById(friendship._id));
+  const pin = current?.pins.find((entry) => entry.message.toString() === message._id.toString());
+  if (!pin) {
+    throw new MessageError(`You can pin at most ${maxPins} messages in a conversation`, 409);
+  }
+  return { message, pin };
+};
+
+/** Tells both participants that a message was pinned or unpinned. */
+export const emitPinUpdate = (
+  message: IMessage,
+  change: { userId: string; action: PinAction; pin: IPinnedMessage | null }
+): void => {
+  const senderId = message.sender._id.toString();
+  const receiverId = getDirectReceiverId(message);
+  const payload = {
+    messageId: message._id,
+    action: change.action,
+    userId: change.userId,
+    pinnedAt: change.pin?.pinnedAt ?? null,
+  };
+
+  emitToUser(senderId, 'pins_updated', { friendId: receiverId, ...payload });
+  emitToUser(receiverId, 'pins_updated', { friendId: senderId, ...payload });
+};
+
+/**
+ * Pinned messages of the conversation with `friendId` that `userId` can
+ * still see, most recently pinned first.
+ */
+export const getPinnedMessages = async (
+  userId: string,
+  friendId: string
+): Promise<Record<string, unknown>[]> => {
+  if (!mongoose.Types.ObjectId.isValid(friendId)) {
+    throw new MessageError('Please provide a valid friend ID');
+  }
+
+  const friendship = await findAcceptedFriendship(userId, friendId);
+  if (!friendship) {
+    throw new MessageError('You can only view messages with friends', 403);
+  }
+
+  const pins = [...(friendship.pins ?? [])].sort(
+    (a, b) => b.pinnedAt.getTime() - a.pinnedAt.getTime()
+  );
+  const messages = await Message.find({
+    _id: { $in: pins.map((pin) => pin.message) },
+    ...visibleTo(userId),
+  }).populate('sender receiver', PUBLIC_USER_FIELDS);
+
+  const serialized = await serializeMessages(messages, userId);
+  const serializedById = new Map(
+    messages.map((message, index) => [message._id.toString(), serialized[index]])
+  );
+
+  return pins
+    .filter((pin) => serializedById.has(pin.message.toString()))
+    .map((pin) => ({
+      message: serializedById.get(pin.message.toString()),
+      pinnedBy: pin.pinnedBy,
+      pinnedAt: pin.pinnedAt,
+    }));
+};
@@ -0,0 +1,57 @@
+import { RevokedToken } from '../models/RevokedToken';
+
+/**
+ * Keeps the set of revoked token IDs until their natural expiry. Keys are
+ * either an access token `jti` or `session:<sessionId>` for every token of
+ * a session. A Redis implementation only needs SET with an expiry and
+ * EXISTS to satisfy this interface.
+ */
+export interface RevocationStore {
+  revoke(key: string, expiresAt: Date): Promise<void>;
+  isRevoked(keys: string[]): Promise<boolean>;
+}
+
+export const createMongoRevocationStore = (): RevocationStore => ({
+  async revoke(key, expiresAt) {
+    await RevokedToken.updateOne({ key }, { key, expiresAt }, { upsert: true });
+  },
+  async isRevoked(keys) {
+    if (keys.length === 0) return false;
+    const match = await RevokedToken.exists({ key: { $in: keys }, expiresAt: { $gt: new Date() } });
+    return Boolean(match);
+  },
+});
+
+/**
+ * Single-process store, mostly useful in tests or as a template for a
+ * shared cache such as Redis.
+ */
+export const createMemoryRevocationStore = (): RevocationStore => {
+  const entries = new Map<string, number>();
+
+  return {
+    async revoke(key, expiresAt) {
+      entries.set(key, expiresAt.getTime());
+    },
+    async isRevoked(keys) {
+      const now = Date.now();
+      return keys.some((key) => {
+        const expiresAt = entries.get(key);
+        if (expiresAt === undefined) return false;
+        if (expiresAt <= now) {
+          entries.delete(key);
+          return false;
+        }
+        return true;
+      });
+    },
+  };
+};
+
+let store: RevocationStore = createMongoRevocationStore();
+
+export const setRevocationStore = (customStore: RevocationStore): void => {
+  store = customStore;
+};
+
+export const getRevocationStore = (): RevocationStore => store;
@@ -0,0 +1,181 @@
+import mongoose from 'mongoose';
+import { ScheduledMessage, IScheduledMessage } from '../models/ScheduledMessage';
+import { Attachment } from '../models/Attachment';
+import { PUBLIC_USER_FIELDS } from '../models/User';
+import { messagingConfig } from '../config/messaging';
+import { MessageError, NewMessage, validateNewMessage } from './messageHelper';
+import { toAttachmentJson, isImageMimeType } from './attachments';
+
+const MAX_PENDING_PER_USER = 100;
+
+/** Statuses of scheduled messages that have not been sent yet. */
+export const UNSENT_STATUSES = ['pending', 'processing'];
+
+const parseSendAt = (value: unknown): Date => {
+  const sendAt = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (!sendAt || Number.isNaN(sendAt.getTime())) {
+    throw new MessageError('sendAt must be a valid date');
+  }
+
+  if (sendAt.getTime() <= Date.now()) {
+    throw new MessageError('sendAt must be in the future');
+  }
+
+  const maxMs = messagingConfig.scheduleMaxDays * 24 * 60 * 60 * 1000;
+  if (sendAt.getTime() - Date.now() > maxMs) {
+    throw new MessageError(
+      `Messages can be scheduled at most ${messagingConfig.scheduleMaxDays} days ahead`
+    );
+  }
+  return sendAt;
+};
+
+/**
+ * Stores a message to be sent at `sendAt`. It is checked now like a normal
+ * send, and again when it is due, since the friendship may have ended by
+ * then. A scheduled attachment stays reserved until the message is sent or
+ * cancelled.
+ */
+export const scheduleMessage = async (
+  input: NewMessage & { sendAt: unknown }
+): Promise<IScheduledMessage> => {
+  if (input.conversationId !== undefined && input.conversationId !== null && input.conversationId !== '') {
+    throw new MessageError('Only direct messages can be scheduled');
+  }
+
+  const sendAt = parseSendAt(input.sendAt);
+  const { receiverId, text, messageType, replyTo, attachmentId } = await validateNewMessage(input);
+
+  const pending = await ScheduledMessage.countDocuments({
+    sender: input.senderId,
+    status: { $in: UNSENT_STATUSES },
+  });
+  if (pending >= MAX_PENDING_PER_USER) {
+    throw new MessageError(`You can have at most ${MAX_PENDING_PER_USER} scheduled messages`, 429);
+  }
+
+  let attachment = null;
+  if (attachmentId) {
+    attachment = await Attachment.findOne({
+      _id: attachmentId,
+      uploader: input.senderId,
+      message: { $exists: false },
+    });
+    const reserved = await ScheduledMessage.exists({
+      attachment: attachmentId,
+      status: { $in: UNSENT_STATUSES },
+    });
+    if (!attachment || reserved) {
+      throw new MessageError('Attachment not found or already sent', 404);
+    }
+  }
+
+  const scheduled = await ScheduledMessage.create({
+    sender: input.senderId,
+    receiver: receiverId,
+    content: text,
+    messageType: attachment ? (isImageMimeType(attachment.mimeType) ? 'image' : 'file') : messageType,
+    sendAt,
+    ...(replyTo ? { replyTo } : {}),
+    ...(attachment ? { attachment: attachment._id } : {}),
+  });
+
+  await scheduled.populate('receiver', PUBLIC_USER_FIELDS);
+  return scheduled;
+};
+
+const findOwnScheduledMessage = async (
+  userId: string,
+  scheduledMessageId: string,
+  statuses: string[]
+): Promise<IScheduledMessage> => {
+  if (!mongoose.Types.ObjectId.isValid(scheduledMessageId)) {
+    throw new MessageError('Please provide a valid scheduled message ID');
+  }
+
+  const scheduled = await ScheduledMessage.findOne({
+    _id: scheduledMessageId,
+    sender: userId,
+    status: { $in: statuses },
+  });
+  if (!scheduled) {
+    throw new MessageError('Scheduled message not found', 404);
+  }
+  return scheduled;
+};
+
+/** Changes the content and/or send time of a message that is still pending. */
+export const editScheduledMessage = async (
+  userId: string,
+  scheduledMessageId: string,
+  changes: { content?: unknown; sendAt?: unknown }
+): Promise<IScheduledMessage> => {
+  const scheduled = await findOwnScheduledMessage(userId, scheduledMessageId, ['pending']);
+
+  const update: { content?: string; sendAt?: Date } = {};
+  if (changes.content !== undefined) {
+    const text = typeof changes.content === 'string' ? changes.content.trim() : '';
+    if (!text && !scheduled.attachment) {
+      throw new MessageError('Message content is required');
+    }
+    update.content = text;
+  }
+  if (changes.sendAt !== undefined) {
+    update.sendAt = parseSendAt(changes.sendAt);
+  }
+  if (!Object.keys(update).length) {
+    throw new MessageError('Provide content or sendAt to change');
+  }
+
+  // Conditional on the status so an edit cannot race the scheduler.
+  const updated = await ScheduledMessage.findOneAndUpdate(
+    { _id: scheduled._id, status: 'pending' },
+    { $set: update },
+    { new: true }
+  ).populate('receiver', PUBLIC_USER_FIELDS);
+  if (!updated) {
+    throw new MessageError('The message is already being sent', 409);
+  }
+  return updated;
+};
+
+/** Cancels a pending message, or dismisses one that failed to send. */
+export const cancelScheduledMessage = async (
+  userId: string,
+  scheduledMessageId: string
+): Promise<void> => {
+  const scheduled = await findOwnScheduledMessage(userId, scheduledMessageId, ['pending', 'failed']);
+
+  const deleted = await ScheduledMessage.findOneAndDelete({
+    _id: scheduled._id,
+    status: scheduled.status,
+  });
+  if (!deleted) {
+    throw new MessageError('The message is already being sent', 409);
+  }
+};
+
+/** JSON for clients, with attachment metadata in place of the ID. */
+export const serializeScheduledMessages = async (
+  scheduledMessages: IScheduledMessage[]
+): Promise<Record<string, unknown>[]> => {
+  const attachmentIds = scheduledMessages
+    .map((scheduled) => scheduled.attachment)
+    .filter((id): id is mongoose.Types.ObjectId => Boolean(id));
+  const attachments = attachmentIds.length
+    ? await Attachment.find({ _id: { $in: attachmentIds } })
+    : [];
+  const attachmentsById = new Map(
+    attachments.map((attachment) => [attachment._id.toString(), attachment])
+  );
+
+  return scheduledMessages.map((scheduled) => {
+    const json = scheduled.toJSON() as Record<string, unknown>;
+    Reflect.deleteProperty(json, 'processingStartedAt');
+    if (scheduled.attachment) {
+      const attachment = attachmentsById.get(scheduled.attachment.toString());
+      json.attachment = attachment ? toAttachmentJson(attachment) : null;
+    }
+    return json;
+  });
+};
@@ -0,0 +1,65 @@
+export interface SearchSnippet {
+  text: string;
+  /** `[start, end)` character ranges of matched terms within `text`. */
+  highlights: [number, number][];
+  truncatedStart: boolean;
+  truncatedEnd: boolean;
+}
+
+/**
+ * Splits a MongoDB `$text` query into the words worth highlighting: quoted
+ * phrases are kept whole and negated terms (`-word`) are dropped.
+ */
+export const extractSearchTerms = (query: string): string[] => {
+  const terms: string[] = [];
+  const pattern = /(-?)"([^"]+)"|(-?)(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const negated = match[1] || match[3];
+    const term = (match[2] ?? match[4]).replace(/"/g, '').trim();
+    if (!negated && term) terms.push(term.toLowerCase());
+  }
+
+  return Array.from(new Set(terms));
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Cuts a window of about `radius` characters on each side of the first
+ * matched term and reports where every term occurs inside it. Text search
+ * matches word stems, so terms are matched as word prefixes; when nothing
+ * matches the snippet is simply the start of the content.
+ */
+export const buildSearchSnippet = (
+  content: string,
+  terms: string[],
+  radius = 60
+): SearchSnippet => {
+  const pattern = terms.length
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})`, 'giu')
+    : null;
+
+  const first = pattern ? pattern.exec(content) : null;
+  const center = first ? first.index : 0;
+  const start = Math.max(0, first ? center - radius : 0);
+  const end = Math.min(content.length, first ? center + first[0].length + radius : radius * 2);
+  const text = content.slice(start, end);
+
+  const highlights: [number, number][] = [];
+  if (pattern) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      highlights.push([match.index, match.index + match[0].length]);
+    }
+  }
+
+  return {
+    text,
+    highlights,
+    truncatedStart: start > 0,
+    truncatedEnd: end < content.length,
+  };
+};
@@ -0,0 +1,198 @@
+import { Request } from 'express';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Session, ISession } from '../models/Session';
+import { SecurityEvent } from '../models/SecurityEvent';
+import { User, IUser } from '../models/User';
+import { generateAccessToken, generateRefreshToken, TokenPayload } from './jwt';
+import { hashToken } from './tokens';
+import { sendSecurityAlertEmail } from './authEmails';
+import { revokeSessionAccessTokens } from './accessTokens';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Chrome\//, 'Chrome'],
+  [/Firefox\//, 'Firefox'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+const describeUserAgent = (userAgent: string): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || userAgent.slice(0, 100);
+};
+
+const getClientInfo = (req: Request) => {
+  const userAgent = req.get('user-agent') || '';
+  const requestedName = req.body?.deviceName || req.get('x-device-name');
+
+  return {
+    userAgent,
+    ip: req.ip || '',
+    deviceName:
+      typeof requestedName === 'string' && requestedName.trim()
+        ? requestedName.trim().slice(0, 100)
+        : describeUserAgent(userAgent),
+  };
+};
+
+const getTokenExpiry = (token: string): Date => {
+  const decoded = jwt.decode(token) as { exp?: number } | null;
+  return decoded?.exp ? new Date(decoded.exp * 1000) : new Date();
+};
+
+interface SignedTokens extends AuthTokens {
+  refreshTokenJti: string;
+}
+
+const signTokens = (user: IUser, session: ISession): SignedTokens => {
+  const payload: TokenPayload = {
+    userId: user._id.toString(),
+    email: user.email,
+    sessionId: session._id.toString(),
+    tokenVersion: user.tokenVersion,
+  };
+  const refreshTokenJti = crypto.randomUUID();
+
+  return {
+    accessToken: generateAccessToken(payload),
+    refreshToken: generateRefreshToken(payload, refreshTokenJti),
+    refreshTokenJti,
+  };
+};
+
+/**
+ * Creates a new device session for the user and returns its token pair.
+ * Each session is one refresh token family: every token issued for it
+ * carries the session ID, and only the latest `jti` is accepted.
+ */
+export const startSession = async (user: IUser, req: Request): Promise<AuthTokens> => {
+  const session = new Session({
+    user: user._id,
+    ...getClientInfo(req),
+    lastUsedAt: new Date(),
+  });
+
+  const { accessToken, refreshToken, refreshTokenJti } = signTokens(user, session);
+  session.refreshTokenHash = hashToken(refreshToken);
+  session.refreshTokenJti = refreshTokenJti;
+  session.expiresAt = getTokenExpiry(refreshToken);
+  await session.save();
+
+  return { accessToken, refreshToken };
+};
+
+const replaceSessionTokens = async (
+  filter: Record<string, unknown>,
+  session: ISession,
+  user: IUser,
+  req: Request
+): Promise<AuthTokens | null> => {
+  const { userAgent, ip } = getClientInfo(req);
+  const { accessToken, refreshToken, refreshTokenJti } = signTokens(user, session);
+
+  const updated = await Session.findOneAndUpdate(filter, {
+    refreshTokenHash: hashToken(refreshToken),
+    refreshTokenJti,
+    expiresAt: getTokenExpiry(refreshToken),
+    lastUsedAt: new Date(),
+    userAgent,
+    ip,
+  });
+
+  return updated ? { accessToken, refreshToken } : null;
+};
+
+/**
+ * Issues a fresh token pair for an existing session, replacing its stored
+ * refresh token so the previous one can no longer be used. Resolves to
+ * `null` when `presentedJti` is no longer the family's current token, which
+ * happens when two requests race to rotate the same token.
+ */
+export const rotateSession = async (
+  session: ISession,
+  user: IUser,
+  req: Request,
+  presentedJti: string | undefined
+): Promise<AuthTokens | null> =>
+  replaceSessionTokens(
+    { _id: session._id, refreshTokenJti: presentedJti ?? null },
+    session,
+    user,
+    req
+  );
+
+/**
+ * Re-issues tokens for the caller's own session after a credential change,
+ * without a refresh token being presented. Starts a new session when the
+ * current one no longer exists.
+ */
+export const renewSession = async (
+  sessionId: string | undefined,
+  user: IUser,
+  req: Request
+): Promise<AuthTokens> => {
+  const session = sessionId ? await Session.findOne({ _id: sessionId, user: user._id }) : null;
+  if (session) {
+    const tokens = await replaceSessionTokens({ _id: session._id }, session, user, req);
+    if (tokens) return tokens;
+  }
+
+  return startSession(user, req);
+};
+
+/**
+ * Called when an already-rotated refresh token is presented again. Either
+ * the legitimate client or an attacker holds a copy of a stolen token, and
+ * we cannot tell which, so the whole family is revoked and the user is told.
+ */
+export const revokeTokenFamily = async (
+  session: ISession,
+  req: Request,
+  presentedJti: string | undefined
+): Promise<void> => {
+  await Session.deleteOne({ _id: session._id });
+  await revokeSessionAccessTokens(session.user.toString(), session._id.toString(), session.expiresAt);
+
+  const { userAgent, ip } = getClientInfo(req);
+  await SecurityEvent.create({
+    user: session.user,
+    type: 'refresh_token_reuse',
+    session: session._id,
+    deviceName: session.deviceName,
+    tokenJti: presentedJti,
+    ip,
+    userAgent,
+  });
+
+  const user = await User.findById(session.user);
+  if (user) {
+    try {
+      await sendSecurityAlertEmail(user, {
+        deviceName: session.deviceName,
+        ip,
+        occurredAt: new Date(),
+      });
+    } catch (mailError) {
+      console.error('Security alert email error:', mailError);
+    }
+  }
+};